@@ -0,0 +1,168 @@
+import * as chai from 'chai';
+import { RSPClient, Protocol, ServerState } from 'rsp-client';
+import { getClient, resetServer } from '../resources/fixture';
+import { waitForNotification, waitForState } from '../resources/notifications';
+import { installations, createInstallation, createRoot } from '../resources/installations';
+import { Benchmark, readBaseline, writeBaseline, findRegressions, formatResults } from '../resources/benchmark';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import 'mocha';
+
+const expect = chai.expect;
+
+const size = +(process.env.RSP_BENCHMARK_SIZE || 200);
+const depth = +(process.env.RSP_BENCHMARK_DEPTH || 7);
+const concurrency = +(process.env.RSP_BENCHMARK_CONCURRENCY || 3);
+const cycles = +(process.env.RSP_BENCHMARK_CYCLES || 3);
+const baselineFile = path.resolve(process.env.RSP_BENCHMARK_BASELINE || 'benchmark-baseline.json');
+
+describe('Model Load', function() {
+    this.timeout(600000);
+
+    const wildflyRoot = path.resolve('./wildfly');
+    const bench = new Benchmark();
+
+    let client: RSPClient;
+    let root: string;
+
+    before(() => {
+        client = getClient();
+        root = createRoot('rsp-benchmark-');
+    });
+
+    afterEach(async () => {
+        await resetServer();
+    });
+
+    after(() => {
+        fs.removeSync(root);
+
+        const results = bench.results();
+        const baseline = readBaseline(baselineFile);
+        console.log(`\n${formatResults(results, baseline)}\n`);
+        if (!baseline || process.env.RSP_BENCHMARK_UPDATE) {
+            writeBaseline(baselineFile, results, baseline);
+            console.log(`Baseline written to ${baselineFile}`);
+            return;
+        }
+        const threshold = process.env.RSP_BENCHMARK_THRESHOLD ? +process.env.RSP_BENCHMARK_THRESHOLD : undefined;
+        const regressions = findRegressions(results, baseline, threshold);
+        if (regressions.length > 0) {
+            throw new Error(`${regressions.length} statistics regressed against ${baselineFile}:\n  ` + regressions
+                .map(regression => `${regression.series} ${regression.statistic}: ${regression.current} ms, ` +
+                    `baseline ${regression.baseline} ms`).join('\n  '));
+        }
+    });
+
+    /**
+     * Times a request along with the notification it causes, the lag counting from the response. A
+     * notification that arrives ahead of the response has no lag.
+     */
+    async function timeWithNotification<T>(series: string, notified: Promise<any>, action: () => Promise<T>): Promise<T> {
+        const arrival = notified.then(() => bench.now());
+        const result = await bench.time(`${series} latency`, action);
+        const responded = bench.now();
+        bench.add(`${series} notification lag`, Math.max(0, await arrival - responded));
+        return result;
+    }
+
+    /**
+     * Copy of the installation for one of the servers started at once, its sockets moved by a port
+     * offset of 100 per server so they do not compete for the same ports
+     */
+    function installationCopy(index: number): string {
+        const home = path.join(root, 'concurrent', `wildfly-${index}`);
+        fs.copySync(wildflyRoot, home);
+        const config = path.join(home, 'standalone', 'configuration', 'standalone.xml');
+        if (fs.existsSync(config)) {
+            const xml = fs.readFileSync(config, 'utf8');
+            fs.writeFileSync(config, xml.replace(/\$\{jboss\.socket\.binding\.port-offset:\d+\}/,
+                `\${jboss.socket.binding.port-offset:${index * 100}}`));
+        }
+        return home;
+    }
+
+    it(`createServerAsync with ${size} servers`, async () => {
+        const [bean] = await client.findServerBeans(wildflyRoot);
+        for (let i = 0; i < size; i++) {
+            const id = `load-${i}`;
+            const status = await timeWithNotification('createServer',
+                waitForNotification(client, 'serverAdded', handle => handle.id === id, 30000),
+                () => client.createServerAsync(bean, id));
+            expect(status.severity, status.message).equals(0);
+        }
+
+        for (let i = 0; i < 20; i++) {
+            const handles = await bench.time('getServerHandles latency', () => client.getServerHandles());
+            expect(handles).length(size);
+        }
+    });
+
+    it(`addDiscoveryPathAsync with ${size} discovery paths`, async () => {
+        for (let i = 0; i < size; i++) {
+            const filepath = path.join(root, 'paths', `path-${i}`);
+            fs.ensureDirSync(filepath);
+            const status = await timeWithNotification('addDiscoveryPath',
+                waitForNotification(client, 'discoveryPathAdded', param => param.filepath === filepath, 30000),
+                () => client.addDiscoveryPathAsync(filepath));
+            expect(status.severity, status.message).equals(0);
+        }
+
+        for (let i = 0; i < 20; i++) {
+            const paths = await bench.time('getDiscoveryPaths latency', () => client.getDiscoveryPaths());
+            expect(paths).length(size);
+        }
+    });
+
+    it(`findServerBeans over a directory tree of depth ${depth}`, async () => {
+        const directories: string[] = [];
+        const locations: string[] = [];
+        const grow = (dir: string, level: number) => {
+            directories.push(dir);
+            if (level === depth) {
+                locations.push(createInstallation(dir, installations[locations.length % installations.length]));
+                return;
+            }
+            ['a', 'b'].forEach(name => grow(path.join(dir, name), level + 1));
+        };
+        grow(path.join(root, 'tree'), 0);
+
+        for (const location of [...directories, ...locations]) {
+            const beans = await bench.time('findServerBeans latency', () => client.findServerBeans(location));
+            const recognized = beans.filter(bean => bean.serverAdapterTypeId);
+            expect(recognized, location).length(locations.indexOf(location) < 0 ? 0 : 1);
+        }
+    });
+
+    it(`startServerAsync and stopServerAsync on ${concurrency} servers at once`, async () => {
+        const servers: { handle: Protocol.ServerHandle, home: string }[] = [];
+        for (let i = 0; i < concurrency; i++) {
+            const home = installationCopy(i);
+            servers.push({ handle: await client.createServerSync(home, `cycle-${i}`), home });
+        }
+
+        const cycle = async ({ handle, home }: { handle: Protocol.ServerHandle, home: string }) => {
+            const started = waitForState(client, handle, ServerState.STARTED, 120000);
+            const startRequested = bench.now();
+            const response = await timeWithNotification('startServerAsync',
+                waitForState(client, handle, ServerState.STARTING, 60000), () => client.startServerAsync({
+                    mode: 'run',
+                    params: { id: handle.id, serverType: handle.type.id, attributes: { 'server.home.dir': home } }
+                }));
+            expect(response.status.severity, response.status.message).equals(0);
+            await started;
+            bench.add('start to STARTED', bench.now() - startRequested);
+
+            const stopped = waitForState(client, handle, ServerState.STOPPED, 60000);
+            const stopRequested = bench.now();
+            await timeWithNotification('stopServerAsync', waitForState(client, handle, ServerState.STOPPING, 60000),
+                () => client.stopServerAsync({ id: handle.id, force: false }));
+            await stopped;
+            bench.add('stop to STOPPED', bench.now() - stopRequested);
+        };
+
+        for (let i = 0; i < cycles; i++) {
+            await Promise.all(servers.map(cycle));
+        }
+    });
+});
@@ -0,0 +1,237 @@
+import download = require('download');
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as url from 'url';
+import * as fs from 'fs-extra';
+
+/**
+ * Downloadable archive, cached under <cache>/<name>/<version>/<fileName>
+ */
+export interface Artifact {
+    name: string;
+    version: string;
+    fileName: string;
+    /** remote location, artifacts without one can only come from the cache or the mirror */
+    url?: string;
+    sha1?: string;
+    sha256?: string;
+}
+
+export interface CacheOptions {
+    /** cache root, defaults to RSP_ARTIFACT_CACHE or else ./.cache */
+    cacheRoot?: string;
+    /** directory or file:// url of pre-seeded archives, defaults to RSP_ARTIFACT_MIRROR */
+    mirror?: string;
+    /** never download, defaults to RSP_OFFLINE being set */
+    offline?: boolean;
+    /** hours after which a cached SNAPSHOT archive is fetched again, defaults to RSP_SNAPSHOT_MAX_AGE or else 24 */
+    snapshotMaxAge?: number;
+}
+
+interface Checksum {
+    algorithm: string;
+    value: string;
+}
+
+const algorithms = ['sha256', 'sha1'];
+
+function withDefaults(options: CacheOptions): CacheOptions {
+    return Object.assign({
+        cacheRoot: process.env.RSP_ARTIFACT_CACHE || path.resolve('.cache'),
+        mirror: process.env.RSP_ARTIFACT_MIRROR,
+        offline: !!process.env.RSP_OFFLINE,
+        snapshotMaxAge: process.env.RSP_SNAPSHOT_MAX_AGE ? +process.env.RSP_SNAPSHOT_MAX_AGE : 24
+    }, options);
+}
+
+/**
+ * Resolves the mirror base to a local directory, accepting both plain paths and file:// urls
+ */
+export function mirrorDir(mirror = withDefaults({}).mirror): string {
+    if (!mirror) {
+        return null;
+    }
+    if (mirror.startsWith('file:')) {
+        return decodeURIComponent(url.parse(mirror).pathname);
+    }
+    return path.resolve(mirror);
+}
+
+export function cachePath(artifact: Artifact, cacheRoot = withDefaults({}).cacheRoot): string {
+    return path.join(cacheRoot, artifact.name, artifact.version, artifact.fileName);
+}
+
+function hash(data: Buffer, algorithm: string): string {
+    return crypto.createHash(algorithm).update(data).digest('hex');
+}
+
+/**
+ * Looks up the expected checksum of an archive, either from the artifact descriptor
+ * or from a sha256sum style sidecar file next to the archive
+ */
+function expectedChecksum(artifact: Artifact, file?: string): Checksum {
+    for (const algorithm of algorithms) {
+        if (artifact[algorithm]) {
+            return { algorithm, value: artifact[algorithm].toLowerCase() };
+        }
+    }
+    if (!file) {
+        return null;
+    }
+    for (const algorithm of algorithms) {
+        const sidecar = `${file}.${algorithm}`;
+        if (fs.existsSync(sidecar)) {
+            return { algorithm, value: fs.readFileSync(sidecar, 'utf8').trim().split(/\s+/)[0].toLowerCase() };
+        }
+    }
+    return null;
+}
+
+/**
+ * Expected checksum of a download: the one the artifact declares, or else the one published in a
+ * sidecar next to the url
+ */
+async function remoteChecksum(artifact: Artifact): Promise<Checksum> {
+    const declared = expectedChecksum(artifact);
+    if (declared) {
+        return declared;
+    }
+    for (const algorithm of algorithms) {
+        try {
+            const sidecar = await download(`${artifact.url}.${algorithm}`);
+            return { algorithm, value: sidecar.toString('utf8').trim().split(/\s+/)[0].toLowerCase() };
+        } catch (err) {
+            // not published for this algorithm
+        }
+    }
+    return null;
+}
+
+function verify(artifact: Artifact, data: Buffer, source: string, checksum: Checksum) {
+    if (!checksum) {
+        return;
+    }
+    const actual = hash(data, checksum.algorithm);
+    if (actual !== checksum.value) {
+        throw new Error(`Checksum mismatch for ${artifact.fileName} from ${source}: ` +
+            `expected ${checksum.algorithm} ${checksum.value}, got ${actual}`);
+    }
+}
+
+/**
+ * Stores a verified archive in the versioned cache along with its sha256 sidecar, which also records
+ * when the archive was fetched
+ */
+function store(artifact: Artifact, data: Buffer, options: CacheOptions): string {
+    const target = cachePath(artifact, options.cacheRoot);
+    fs.ensureDirSync(path.dirname(target));
+    fs.writeFileSync(target, data);
+    fs.writeFileSync(`${target}.sha256`, `${hash(data, 'sha256')}  ${artifact.fileName}\n`);
+    return target;
+}
+
+/**
+ * Whether a cached SNAPSHOT archive is older than the maximum age and may have been replaced by a
+ * newer build since. Archives of other versions never change.
+ */
+function isStale(artifact: Artifact, cached: string, options: CacheOptions): boolean {
+    if (!artifact.version.endsWith('-SNAPSHOT')) {
+        return false;
+    }
+    const sidecar = `${cached}.sha256`;
+    const fetched = fs.existsSync(sidecar) ? fs.statSync(sidecar).mtime.getTime() : 0;
+    return Date.now() - fetched > options.snapshotMaxAge * 3600 * 1000;
+}
+
+/**
+ * Locations of an archive in a mirror, laid out by artifact and version or flat
+ */
+function mirrorCandidates(artifact: Artifact, dir: string): string[] {
+    return [
+        path.join(dir, artifact.name, artifact.version, artifact.fileName),
+        path.join(dir, artifact.fileName)
+    ];
+}
+
+function fromMirror(artifact: Artifact, options: CacheOptions): string {
+    const dir = mirrorDir(options.mirror);
+    if (!dir) {
+        return null;
+    }
+    const file = mirrorCandidates(artifact, dir).find(candidate => fs.existsSync(candidate));
+    if (!file) {
+        return null;
+    }
+    console.log(`Using ${artifact.fileName} from mirror ${dir}`);
+    const data = fs.readFileSync(file);
+    verify(artifact, data, file, expectedChecksum(artifact, file));
+    return store(artifact, data, options);
+}
+
+function missing(artifact: Artifact, options: CacheOptions): Error {
+    const locations = [cachePath(artifact, options.cacheRoot)];
+    const dir = mirrorDir(options.mirror);
+    if (dir) {
+        locations.push(...mirrorCandidates(artifact, dir));
+    }
+    const reason = artifact.url ? 'is not available offline' : 'has no download url and is not available locally';
+    return new Error(`Artifact ${artifact.fileName} (${artifact.name} ${artifact.version}) ${reason}. ` +
+        `Looked in: ${locations.join(', ')}. Seed the mirror directory set in RSP_ARTIFACT_MIRROR with this file` +
+        (artifact.url ? ' or unset RSP_OFFLINE to download it.' : '.'));
+}
+
+/**
+ * Resolves an artifact to a verified archive in the local cache. The cache is consulted first,
+ * then the configured mirror and finally the artifact's remote url unless running offline. Downloads
+ * are verified against the checksum the artifact declares or the .sha256 or .sha1 file published
+ * next to the url. A cached SNAPSHOT archive older than the maximum age is fetched again, and kept when
+ * that is not possible.
+ *
+ * @param artifact the archive to resolve
+ * @param options locations and policies overriding the environment
+ * @returns promise of the absolute path to the cached archive
+ */
+export function fetchArtifact(artifact: Artifact, options: CacheOptions = {}): Promise<string> {
+    options = withDefaults(options);
+    return Promise.resolve().then(() => {
+        const cached = cachePath(artifact, options.cacheRoot);
+        const fromCache = () => {
+            verify(artifact, fs.readFileSync(cached), cached, expectedChecksum(artifact, cached));
+            return cached;
+        };
+        const stale = fs.existsSync(cached) && isStale(artifact, cached, options);
+        if (fs.existsSync(cached) && !stale) {
+            return fromCache();
+        }
+
+        const mirrored = fromMirror(artifact, options);
+        if (mirrored) {
+            return mirrored;
+        }
+
+        if (stale && (options.offline || !artifact.url)) {
+            return fromCache();
+        }
+        if (options.offline || !artifact.url) {
+            throw missing(artifact, options);
+        }
+
+        console.log(`Downloading ${artifact.url}`);
+        return download(artifact.url)
+        .then(async data => {
+            const checksum = await remoteChecksum(artifact);
+            if (!checksum) {
+                console.log(`No checksum published for ${artifact.url}, storing ${artifact.fileName} unverified`);
+            }
+            verify(artifact, data, artifact.url, checksum);
+            return store(artifact, data, options);
+        }, err => {
+            if (stale) {
+                console.log(`Failed to download ${artifact.url}: ${err.message}, using the cached ${artifact.fileName}`);
+                return fromCache();
+            }
+            throw new Error(`Failed to download ${artifact.fileName} from ${artifact.url}: ${err.message}. ` +
+                'Point RSP_ARTIFACT_MIRROR at a directory containing this file to run without network access.');
+        });
+    });
+}
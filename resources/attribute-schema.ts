@@ -0,0 +1,89 @@
+import { Protocol } from 'rsp-client';
+
+/**
+ * Schema of the attributes and launch modes a server type declares, and sample values of every
+ * attribute type for creating servers with valid and wrongly typed attributes
+ */
+
+/** attribute types of the RSP, list and map may carry their element types as in list<string> */
+export const ATTRIBUTE_TYPES = ['string', 'int', 'bool', 'list', 'map'];
+
+function baseType(type: string): string {
+    return type.split('<')[0];
+}
+
+function isOfType(value: any, type: string): boolean {
+    switch (baseType(type)) {
+        case 'string': return typeof value === 'string';
+        case 'int': return typeof value === 'number' && Math.floor(value) === value;
+        case 'bool': return typeof value === 'boolean';
+        case 'list': return Array.isArray(value);
+        case 'map': return !!value && typeof value === 'object' && !Array.isArray(value);
+        default: return false;
+    }
+}
+
+/**
+ * Violations of the schema by one attribute, empty when it conforms
+ */
+export function attributeProblems(name: string, attribute: Protocol.Attribute): string[] {
+    const problems: string[] = [];
+    if (!attribute || typeof attribute !== 'object') {
+        return [`${name} is not an object`];
+    }
+    if (typeof attribute.type !== 'string' || ATTRIBUTE_TYPES.indexOf(baseType(attribute.type)) < 0) {
+        problems.push(`${name} has type ${JSON.stringify(attribute.type)}, expected one of ${ATTRIBUTE_TYPES.join(', ')}`);
+    }
+    if (typeof attribute.description !== 'string' || attribute.description.trim().length === 0) {
+        problems.push(`${name} has no description`);
+    }
+    const defaultValue = attribute.defaultVal;
+    if (defaultValue !== undefined && defaultValue !== null && typeof attribute.type === 'string' && !isOfType(defaultValue, attribute.type)) {
+        problems.push(`${name} has default ${JSON.stringify(defaultValue)}, which is not of type ${attribute.type}`);
+    }
+    return problems;
+}
+
+/**
+ * Violations of the schema by an attributes response
+ */
+export function attributesProblems(attributes: Protocol.Attributes): string[] {
+    if (!attributes || !attributes.attributes || typeof attributes.attributes !== 'object') {
+        return [`expected an object with attributes, got ${JSON.stringify(attributes)}`];
+    }
+    return Object.keys(attributes.attributes)
+        .reduce((problems, name) => problems.concat(attributeProblems(name, attributes.attributes[name])), []);
+}
+
+/**
+ * Violations of the schema by one launch mode
+ */
+export function launchModeProblems(mode: Protocol.ServerLaunchMode): string[] {
+    const problems: string[] = [];
+    if (!mode || typeof mode.mode !== 'string' || mode.mode.length === 0) {
+        problems.push(`launch mode ${JSON.stringify(mode)} has no name`);
+    } else if (typeof mode.desc !== 'string' || mode.desc.trim().length === 0) {
+        problems.push(`launch mode ${mode.mode} has no description`);
+    }
+    return problems;
+}
+
+/**
+ * A value of the given attribute type
+ */
+export function validValue(type: string): any {
+    switch (baseType(type)) {
+        case 'int': return 1;
+        case 'bool': return true;
+        case 'list': return ['value'];
+        case 'map': return { key: 'value' };
+        default: return 'value';
+    }
+}
+
+/**
+ * A value of another type than the given attribute type
+ */
+export function wrongValue(type: string): any {
+    return baseType(type) === 'string' ? 42 : 'value';
+}
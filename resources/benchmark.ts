@@ -0,0 +1,173 @@
+import * as fs from 'fs-extra';
+
+/**
+ * Latency bookkeeping for the benchmark suites: named series of samples in milliseconds, condensed
+ * to percentiles and compared against a baseline file. A statistic regresses when it exceeds the
+ * baseline by more than the threshold, both relative and absolute, so sub-millisecond noise on fast
+ * requests does not fail a run.
+ */
+
+export interface Summary {
+    count: number;
+    min: number;
+    mean: number;
+    p50: number;
+    p90: number;
+    p99: number;
+    max: number;
+}
+
+/**
+ * Summaries keyed by series name, such as 'createServer latency'
+ */
+export interface BenchmarkResults {
+    [series: string]: Summary;
+}
+
+export interface Baseline {
+    /** allowed relative increase of a statistic, 0.25 for 25 % */
+    threshold: number;
+    /** increases of at most this many milliseconds never count as regression */
+    minimumDelta: number;
+    results: BenchmarkResults;
+}
+
+export interface Regression {
+    series: string;
+    statistic: keyof Summary;
+    baseline: number;
+    current: number;
+}
+
+/** statistics compared against the baseline, the extremes being too noisy */
+export const COMPARED: (keyof Summary)[] = ['p50', 'p90', 'p99'];
+
+/** below this many samples the p99 is the maximum or close to it and only compared as p50 and p90 */
+export const P99_MINIMUM_COUNT = 100;
+
+export const DEFAULT_THRESHOLD = 0.25;
+export const DEFAULT_MINIMUM_DELTA = 5;
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Nearest-rank percentile of sorted samples
+ */
+function percentile(sorted: number[], fraction: number): number {
+    return sorted[Math.max(0, Math.ceil(fraction * sorted.length) - 1)];
+}
+
+export function summarize(samples: number[]): Summary {
+    const sorted = samples.slice().sort((a, b) => a - b);
+    return {
+        count: sorted.length,
+        min: round(sorted[0]),
+        mean: round(sorted.reduce((sum, sample) => sum + sample, 0) / sorted.length),
+        p50: round(percentile(sorted, 0.5)),
+        p90: round(percentile(sorted, 0.9)),
+        p99: round(percentile(sorted, 0.99)),
+        max: round(sorted[sorted.length - 1])
+    };
+}
+
+function now(): number {
+    const [seconds, nanos] = process.hrtime();
+    return seconds * 1000 + nanos / 1e6;
+}
+
+/**
+ * Collects samples of a benchmark run
+ */
+export class Benchmark {
+    private series = new Map<string, number[]>();
+
+    /**
+     * Current time in milliseconds, for measuring spans that {@link Benchmark.time} does not cover
+     */
+    now(): number {
+        return now();
+    }
+
+    add(series: string, milliseconds: number) {
+        if (!this.series.has(series)) {
+            this.series.set(series, []);
+        }
+        this.series.get(series).push(milliseconds);
+    }
+
+    /**
+     * Runs an action and adds its duration to a series
+     */
+    async time<T>(series: string, action: () => Promise<T>): Promise<T> {
+        const start = now();
+        const result = await action();
+        this.add(series, now() - start);
+        return result;
+    }
+
+    results(): BenchmarkResults {
+        const results: BenchmarkResults = {};
+        Array.from(this.series.keys()).sort().forEach(series => results[series] = summarize(this.series.get(series)));
+        return results;
+    }
+}
+
+export function readBaseline(file: string): Baseline {
+    if (!fs.existsSync(file)) {
+        return undefined;
+    }
+    return Object.assign({ threshold: DEFAULT_THRESHOLD, minimumDelta: DEFAULT_MINIMUM_DELTA, results: {} }, fs.readJsonSync(file));
+}
+
+export function writeBaseline(file: string, results: BenchmarkResults, previous?: Baseline) {
+    const baseline: Baseline = {
+        threshold: previous ? previous.threshold : DEFAULT_THRESHOLD,
+        minimumDelta: previous ? previous.minimumDelta : DEFAULT_MINIMUM_DELTA,
+        results
+    };
+    fs.outputJsonSync(file, baseline, { spaces: 2 });
+}
+
+/**
+ * Statistics of series present in both results that exceed the baseline, the p99 only when both have
+ * at least {@link P99_MINIMUM_COUNT} samples
+ *
+ * @param threshold overrides the threshold of the baseline file
+ */
+export function findRegressions(results: BenchmarkResults, baseline: Baseline, threshold = baseline.threshold): Regression[] {
+    const regressions: Regression[] = [];
+    Object.keys(results).filter(series => baseline.results[series]).forEach(series => COMPARED.forEach(statistic => {
+        if (statistic === 'p99' && Math.min(results[series].count, baseline.results[series].count) < P99_MINIMUM_COUNT) {
+            return;
+        }
+        const before = baseline.results[series][statistic];
+        const current = results[series][statistic];
+        if (current > before * (1 + threshold) && current - before > baseline.minimumDelta) {
+            regressions.push({ series, statistic, baseline: before, current });
+        }
+    }));
+    return regressions;
+}
+
+/**
+ * Renders results as a padded table, with the baseline p90 when there is one
+ */
+export function formatResults(results: BenchmarkResults, baseline?: Baseline): string {
+    const header = ['series', 'count', 'mean', 'p50', 'p90', 'p99', 'max'];
+    if (baseline) {
+        header.push('baseline p90');
+    }
+    const rows = [header, ...Object.keys(results).map(series => {
+        const summary = results[series];
+        const row = [series, ...['count', 'mean', 'p50', 'p90', 'p99', 'max'].map(key => String((summary as any)[key]))];
+        if (baseline) {
+            row.push(baseline.results[series] ? String(baseline.results[series].p90) : '-');
+        }
+        return row;
+    })];
+    const widths = header.map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    const line = (row: string[]) => row.map((text, column) => text + ' '.repeat(widths[column] - text.length)).join('  ');
+    return [line(rows[0]), widths.map(width => '-'.repeat(width)).join('  '), ...rows.slice(1).map(line)].join('\n');
+}
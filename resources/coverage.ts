@@ -0,0 +1,204 @@
+import { RSPClient } from 'rsp-client';
+import { Messages } from 'rsp-client/lib/protocol/messages';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { TranscriptMessage } from './transcript';
+
+/**
+ * Coverage of the protocol surface: every request and notification declared in the rsp-client
+ * Messages namespace and every public RSPClient method. Requests and notifications are counted from
+ * the traffic the transcript recorder sees, client methods by wrapping RSPClient.prototype. A use is
+ * negative when it gets an error, a null result or a failed Status back, or when a client method is
+ * given a null argument.
+ */
+
+export type CoverageStatus = 'covered' | 'negative only' | 'uncovered';
+
+export interface CoverageEntry {
+    name: string;
+    /** request, notification to the client, notification to the server, or client method */
+    kind: 'request' | 'client notification' | 'server notification' | 'client method';
+    status: CoverageStatus;
+    positive: number;
+    negative: number;
+    /** tests that used the entry */
+    tests: string[];
+}
+
+interface Usage {
+    positive: number;
+    negative: number;
+    tests: Set<string>;
+}
+
+function isFailedStatus(value: any): boolean {
+    return !!value && typeof value.severity === 'number' && value.severity > 0;
+}
+
+/**
+ * Whether a call or request result shows the server rejecting the input
+ */
+function isNegativeResult(result: any): boolean {
+    return result === null || isFailedStatus(result) || (!!result && isFailedStatus(result.status));
+}
+
+/**
+ * Requests and notifications of the protocol, keyed by JSON-RPC method
+ */
+export function protocolSurface(): Map<string, CoverageEntry['kind']> {
+    const surface = new Map<string, CoverageEntry['kind']>();
+    const collect = (namespace: any, notificationKind: CoverageEntry['kind']) => Object.keys(namespace).forEach(name => {
+        const type = namespace[name].type;
+        if (type && type.method) {
+            surface.set(type.method, name.endsWith('Request') ? 'request' : notificationKind);
+        }
+    });
+    collect(Messages.Server, 'server notification');
+    collect(Messages.Client, 'client notification');
+    return surface;
+}
+
+/**
+ * Public methods of RSPClient
+ */
+export function clientSurface(): string[] {
+    return Object.getOwnPropertyNames(RSPClient.prototype)
+        .filter(name => name !== 'constructor' && typeof (RSPClient.prototype as any)[name] === 'function');
+}
+
+export class CoverageTracker {
+    private usages = new Map<string, Usage>();
+    private currentTest: string;
+    private originals = new Map<string, Function>();
+
+    private use(key: string, negative: boolean) {
+        if (!this.currentTest) {
+            return;
+        }
+        let usage = this.usages.get(key);
+        if (!usage) {
+            usage = { positive: 0, negative: 0, tests: new Set() };
+            this.usages.set(key, usage);
+        }
+        negative ? usage.negative++ : usage.positive++;
+        usage.tests.add(this.currentTest);
+    }
+
+    /**
+     * Attributes the following uses to a test, uses outside of tests are not counted
+     */
+    setTest(title: string) {
+        this.currentTest = title;
+    }
+
+    /**
+     * Wraps every RSPClient method to count its calls until {@link CoverageTracker.restoreClient}
+     */
+    instrumentClient() {
+        const prototype = RSPClient.prototype as any;
+        const tracker = this;
+        clientSurface().forEach(name => {
+            const original: Function = prototype[name];
+            this.originals.set(name, original);
+            prototype[name] = function(...args: any[]) {
+                const key = `client:${name}`;
+                const nullArgument = args.length > 0 && (args[0] === null || args[0] === undefined);
+                let result: any;
+                try {
+                    result = original.apply(this, args);
+                } catch (err) {
+                    tracker.use(key, true);
+                    throw err;
+                }
+                if (result && typeof result.then === 'function') {
+                    result.then((value: any) => tracker.use(key, nullArgument || isNegativeResult(value)),
+                        () => tracker.use(key, true));
+                } else {
+                    tracker.use(key, nullArgument);
+                }
+                return result;
+            };
+        });
+    }
+
+    restoreClient() {
+        const prototype = RSPClient.prototype as any;
+        this.originals.forEach((original, name) => prototype[name] = original);
+        this.originals.clear();
+    }
+
+    /**
+     * Counts the requests and notifications of a test's traffic
+     */
+    addTraffic(messages: TranscriptMessage[]) {
+        const responses = new Map<string, TranscriptMessage>();
+        messages.filter(message => message.type === 'response')
+            .forEach(message => responses.set(`${message.connection}:${message.from}:${message.id}`, message));
+        messages.forEach(message => {
+            if (message.type === 'notification') {
+                this.use(`protocol:${message.method}`, false);
+            } else if (message.type === 'request') {
+                const responder = message.from === 'client' ? 'server' : 'client';
+                const response = responses.get(`${message.connection}:${responder}:${message.id}`);
+                const negative = !response || response.error !== undefined || isNegativeResult(response.result);
+                this.use(`protocol:${message.method}`, negative);
+            }
+        });
+    }
+
+    report(): CoverageEntry[] {
+        const entry = (key: string, name: string, kind: CoverageEntry['kind']): CoverageEntry => {
+            const usage = this.usages.get(key) || { positive: 0, negative: 0, tests: new Set<string>() };
+            const status: CoverageStatus = usage.positive > 0 ? 'covered' : (usage.negative > 0 ? 'negative only' : 'uncovered');
+            return { name, kind, status, positive: usage.positive, negative: usage.negative, tests: Array.from(usage.tests) };
+        };
+        const entries: CoverageEntry[] = [];
+        protocolSurface().forEach((kind, method) => entries.push(entry(`protocol:${method}`, method, kind)));
+        clientSurface().forEach(name => entries.push(entry(`client:${name}`, name, 'client method')));
+        return entries;
+    }
+}
+
+/**
+ * Renders entries as a padded console table followed by a summary line
+ */
+export function formatCoverage(entries: CoverageEntry[]): string {
+    const rows = [['name', 'kind', 'status', 'positive', 'negative'],
+        ...entries.map(entry => [entry.name, entry.kind, entry.status, String(entry.positive), String(entry.negative)])];
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    const line = (row: string[]) => row.map((text, column) => text + ' '.repeat(widths[column] - text.length)).join('  ');
+    const count = (status: CoverageStatus) => entries.filter(entry => entry.status === status).length;
+    return [line(rows[0]), widths.map(width => '-'.repeat(width)).join('  '), ...rows.slice(1).map(line), '',
+        `${count('covered')} covered, ${count('negative only')} covered by negative tests only, ` +
+        `${count('uncovered')} uncovered of ${entries.length}`].join('\n');
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders entries as a standalone HTML page
+ */
+export function htmlCoverage(entries: CoverageEntry[]): string {
+    const colors: { [status: string]: string } = { 'covered': '#d4edda', 'negative only': '#fff3cd', 'uncovered': '#f8d7da' };
+    const rows = entries.map(entry => `<tr style="background:${colors[entry.status]}">` +
+        `<td>${escapeHtml(entry.name)}</td><td>${entry.kind}</td><td>${entry.status}</td>` +
+        `<td>${entry.positive}</td><td>${entry.negative}</td>` +
+        `<td>${entry.tests.map(escapeHtml).join('<br>')}</td></tr>`);
+    return ['<!DOCTYPE html>', '<html><head><meta charset="utf-8"><title>RSP protocol coverage</title>',
+        '<style>body{font-family:sans-serif}table{border-collapse:collapse}td,th{border:1px solid #ccc;padding:4px 8px;' +
+        'text-align:left;vertical-align:top}</style></head><body>',
+        '<h1>RSP protocol coverage</h1>', '<table>',
+        '<tr><th>name</th><th>kind</th><th>status</th><th>positive</th><th>negative</th><th>tests</th></tr>',
+        ...rows, '</table></body></html>', ''].join('\n');
+}
+
+/**
+ * Prints the report and writes coverage.json and coverage.html to the given directory
+ */
+export function writeCoverage(entries: CoverageEntry[], dir: string) {
+    fs.outputJsonSync(path.join(dir, 'coverage.json'), entries, { spaces: 2 });
+    fs.outputFileSync(path.join(dir, 'coverage.html'), htmlCoverage(entries));
+    console.log(`\nProtocol coverage\n\n${formatCoverage(entries)}\n\nReport written to ${dir}`);
+}
@@ -0,0 +1,117 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Installation, createInstallation } from './installations';
+
+/**
+ * Generator for directory trees with the layouts users point discovery at: odd names, symlinks and
+ * symlink loops, unreadable directories, deeply nested installations and directories holding several
+ * servers. A tree is described by nested entries and written below a root with {@link buildTree}.
+ */
+
+export type TreeEntry = InstallationEntry | DirectoryEntry | SymlinkEntry | FileEntry;
+
+export interface InstallationEntry {
+    kind: 'installation';
+    installation: Installation;
+}
+
+export interface DirectoryEntry {
+    kind: 'directory';
+    entries: { [name: string]: TreeEntry };
+    /** permissions applied once the directory's entries are written, such as 0 for unreadable */
+    mode?: number;
+}
+
+export interface SymlinkEntry {
+    kind: 'symlink';
+    /** target, relative paths resolve against the directory holding the link */
+    target: string;
+}
+
+export interface FileEntry {
+    kind: 'file';
+    content: string;
+}
+
+export function installation(installation: Installation): InstallationEntry {
+    return { kind: 'installation', installation };
+}
+
+export function directory(entries: { [name: string]: TreeEntry } = {}, mode?: number): DirectoryEntry {
+    return { kind: 'directory', entries, mode };
+}
+
+export function symlink(target: string): SymlinkEntry {
+    return { kind: 'symlink', target };
+}
+
+export function file(content = ''): FileEntry {
+    return { kind: 'file', content };
+}
+
+/**
+ * Nests an entry below a chain of directories, such as nested(['a', 'b'], entry) for a/b/entry
+ */
+export function nested(names: string[], name: string, entry: TreeEntry): { [name: string]: TreeEntry } {
+    return names.reduceRight((entries, parent) => ({ [parent]: directory(entries) }), { [name]: entry });
+}
+
+/**
+ * Writes the entries below root, which is created when missing. Symlinks are written last, so they
+ * may point at any part of the tree.
+ *
+ * @returns the location the RSP should report for every installation, keyed by its path relative to root
+ */
+export function buildTree(root: string, entries: { [name: string]: TreeEntry }): { [relative: string]: string } {
+    const locations: { [relative: string]: string } = {};
+    const links: { link: string, target: string }[] = [];
+    const restricted: { dir: string, mode: number }[] = [];
+
+    const write = (dir: string, children: { [name: string]: TreeEntry }) => {
+        fs.ensureDirSync(dir);
+        Object.keys(children).forEach(name => {
+            const entry = children[name];
+            const target = path.join(dir, name);
+            if (entry.kind === 'installation') {
+                locations[path.relative(root, target)] = createInstallation(dir, Object.assign({}, entry.installation, { name }));
+            } else if (entry.kind === 'directory') {
+                write(target, entry.entries);
+                if (entry.mode !== undefined) {
+                    restricted.push({ dir: target, mode: entry.mode });
+                }
+            } else if (entry.kind === 'symlink') {
+                links.push({ link: target, target: entry.target });
+            } else {
+                fs.writeFileSync(target, entry.content);
+            }
+        });
+    };
+    write(root, entries);
+    links.forEach(({ link, target }) => fs.symlinkSync(target, link));
+    // collected innermost first, a parent without permissions would hide its children
+    restricted.forEach(({ dir, mode }) => fs.chmodSync(dir, mode));
+    return locations;
+}
+
+/**
+ * Removes a generated tree, restoring the permissions of unreadable directories first
+ */
+export function removeTree(root: string) {
+    const restore = (dir: string) => {
+        fs.chmodSync(dir, 0o755);
+        fs.readdirSync(dir).map(name => path.join(dir, name))
+            .filter(child => fs.lstatSync(child).isDirectory())
+            .forEach(restore);
+    };
+    if (fs.existsSync(root)) {
+        restore(root);
+        fs.removeSync(root);
+    }
+}
+
+/**
+ * Whether the current user is kept out of unreadable directories, which root is not
+ */
+export function permissionsEnforced(): boolean {
+    return process.platform !== 'win32' && !(process.getuid && process.getuid() === 0);
+}
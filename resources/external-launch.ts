@@ -0,0 +1,133 @@
+import { Protocol } from 'rsp-client';
+import * as cp from 'child_process';
+import * as fs from 'fs-extra';
+import * as net from 'net';
+import * as path from 'path';
+import { MANAGEMENT_PORT } from './fake-server-process';
+
+/**
+ * Launches a server the way a client does when it starts the process itself: the command comes
+ * from getServerLaunchCommand and the RSP is only told about it through serverStartingByClient and
+ * serverStartedByClient. The launched program is replaced by resources/fake-server-process.ts unless
+ * RSP_EXTERNAL_LAUNCH is set to real.
+ */
+
+export interface LaunchOptions {
+    /** run the fake server process instead of the command, true unless RSP_EXTERNAL_LAUNCH=real */
+    fake?: boolean;
+    /** milliseconds the fake process waits before opening the management port */
+    delay?: number;
+    managementPort?: number;
+}
+
+const fakeScript = path.join(__dirname, 'fake-server-process.ts');
+// resolved here, the process runs in the working directory of the launch command
+const tsNode = require.resolve('ts-node/register');
+
+/**
+ * Process launched on behalf of the client
+ */
+export class ExternalLaunch {
+    /** stdout and stderr of the process, interleaved */
+    output = '';
+    /** resolves with the exit code once the process ended */
+    readonly exited: Promise<number>;
+    private ended = false;
+
+    constructor(readonly process: cp.ChildProcess, readonly command: string[]) {
+        this.process.stdout.on('data', (data: Buffer) => this.output += data.toString());
+        this.process.stderr.on('data', (data: Buffer) => this.output += data.toString());
+        this.exited = new Promise(resolve => {
+            this.process.on('exit', code => {
+                this.ended = true;
+                resolve(code);
+            });
+            this.process.on('error', err => {
+                this.ended = true;
+                this.output += `${err.message}\n`;
+                resolve(-1);
+            });
+        });
+    }
+
+    /**
+     * Waits for the process to end without being stopped by the test
+     *
+     * @returns promise of the exit code, rejected if the process still runs after the timeout
+     */
+    waitForExit(timeout = 10000): Promise<number> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error(`Process still running after ${timeout} ms`)), timeout);
+            this.exited.then(code => {
+                clearTimeout(timer);
+                resolve(code);
+            });
+        });
+    }
+
+    /**
+     * Terminates the process and waits for it to exit, killing it if it ignores SIGTERM
+     */
+    async stop(timeout = 10000): Promise<number> {
+        if (!this.ended) {
+            this.process.kill('SIGTERM');
+            const timer = setTimeout(() => this.process.kill('SIGKILL'), timeout);
+            await this.exited;
+            clearTimeout(timer);
+        }
+        return this.exited;
+    }
+}
+
+function environment(envp: string[]): { [name: string]: string } {
+    const env = Object.assign({}, process.env);
+    (envp || []).forEach(entry => {
+        const separator = entry.indexOf('=');
+        if (separator > 0) {
+            env[entry.slice(0, separator)] = entry.slice(separator + 1);
+        }
+    });
+    return env;
+}
+
+/**
+ * Spawns a launch command in its working directory and environment
+ */
+export function launchExternally(details: Protocol.CommandLineDetails, options: LaunchOptions = {}): ExternalLaunch {
+    options = Object.assign({ fake: process.env.RSP_EXTERNAL_LAUNCH !== 'real', delay: 1000, managementPort: MANAGEMENT_PORT }, options);
+    const cwd = details.workingDir && fs.existsSync(details.workingDir) ? details.workingDir : undefined;
+    const env = environment(details.envp);
+    if (!options.fake) {
+        const child = cp.spawn(details.cmdLine[0], details.cmdLine.slice(1), { cwd, env });
+        return new ExternalLaunch(child, details.cmdLine);
+    }
+    const args = ['-r', tsNode, fakeScript, '--port', String(options.managementPort),
+        '--delay', String(options.delay), '--', ...details.cmdLine];
+    // the fake is plain enough to skip type checking, which would slow down its start considerably
+    const child = cp.spawn(process.execPath, args, { cwd, env: Object.assign(env, { TS_NODE_TRANSPILE_ONLY: 'true' }) });
+    return new ExternalLaunch(child, details.cmdLine);
+}
+
+/**
+ * Waits until a port accepts connections
+ */
+export function waitForPort(port: number, timeout = 60000, host = 'localhost'): Promise<void> {
+    const deadline = Date.now() + timeout;
+    return new Promise((resolve, reject) => {
+        const attempt = () => {
+            const probe = net.connect(port, host);
+            probe.on('connect', () => {
+                probe.destroy();
+                resolve();
+            });
+            probe.on('error', () => {
+                if (Date.now() > deadline) {
+                    reject(new Error(`Port ${port} did not open within ${timeout} ms`));
+                } else {
+                    setTimeout(attempt, 100);
+                }
+            });
+        };
+        attempt();
+    });
+}
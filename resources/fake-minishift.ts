@@ -0,0 +1,141 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+/**
+ * Scripted stand-in for the minishift executable, so the CDK adapter can be created, started and
+ * stopped without a VM. It answers version and status like minishift 1.12+, keeps whether its
+ * cluster runs in a state file next to it and logs every invocation. start and stop can be told to
+ * succeed, fail or hang, hanging invocations record their pid so that reset can kill them.
+ */
+
+export type FakeBehaviour = 'succeed' | 'fail' | 'hang';
+
+export interface FakeMinishiftOptions {
+    /** version printed by 'minishift version' */
+    version?: string;
+    start?: FakeBehaviour;
+    stop?: FakeBehaviour;
+    /** seconds a succeeding start takes before the cluster reports Running */
+    startDelay?: number;
+}
+
+const defaults: FakeMinishiftOptions = { version: '1.12.0', start: 'succeed', stop: 'succeed', startDelay: 0.5 };
+
+function behaviour(mode: FakeBehaviour, succeed: string[], error: string): string[] {
+    if (mode === 'hang') {
+        // exec keeps the pid
+        return ['    echo $$ >> "$dir/hanging.pids"', '    exec sleep 86400'];
+    }
+    if (mode === 'fail') {
+        return [`    echo "${error}" >&2`, '    exit 1'];
+    }
+    return [...succeed, '    exit 0'];
+}
+
+function script(options: FakeMinishiftOptions): string {
+    return [
+        '#!/bin/sh',
+        'dir=$(dirname "$0")',
+        'state="$dir/.minishift-state"',
+        '(IFS="$(printf \'\\t\')"; echo "$*") >> "$dir/invocations.log"',
+        'case "$1" in',
+        'version)',
+        `    echo "minishift v${options.version}+1ec5877"`,
+        '    exit 0',
+        '    ;;',
+        'status)',
+        '    if [ "$(cat "$state" 2>/dev/null)" = "Running" ]; then',
+        '        printf "Minishift:  Running\\nProfile:    minishift\\nOpenShift:  Running (openshift v3.9.0+71543b2-33)\\n"',
+        '    else',
+        '        printf "Minishift:  Stopped\\nProfile:    minishift\\nOpenShift:  Stopped\\n"',
+        '    fi',
+        '    exit 0',
+        '    ;;',
+        'start)',
+        '    echo "-- Starting profile \'minishift\'"',
+        '    echo "-- Starting the OpenShift cluster"',
+        ...behaviour(options.start, [
+            `    sleep ${options.startDelay}`,
+            '    echo Running > "$state"',
+            '    echo "OpenShift server started."',
+            '    echo "The server is accessible via web console at:"',
+            '    echo "    https://192.168.42.11:8443/console"'
+        ], 'Error starting the VM: Error creating the VM. Error creating machine: Error in driver during machine creation'),
+        '    ;;',
+        'stop)',
+        '    echo "Stopping the OpenShift cluster..."',
+        ...behaviour(options.stop, [
+            '    echo Stopped > "$state"',
+            '    echo "Cluster stopped."'
+        ], 'Error stopping the VM: Error stopping the cluster'),
+        '    ;;',
+        '*)',
+        '    echo "Error: unknown command \\"$1\\" for \\"minishift\\"" >&2',
+        '    exit 1',
+        '    ;;',
+        'esac',
+        ''
+    ].join('\n');
+}
+
+export class FakeMinishift {
+    /** path of the executable, what server.home.file points to */
+    readonly file: string;
+    private options: FakeMinishiftOptions;
+
+    constructor(readonly dir: string, options: FakeMinishiftOptions = {}) {
+        this.file = path.join(dir, 'minishift');
+        this.options = Object.assign({}, defaults);
+        this.configure(options);
+    }
+
+    /**
+     * Changes the behaviour of the following invocations
+     */
+    configure(options: FakeMinishiftOptions) {
+        this.options = Object.assign(this.options, options);
+        fs.mkdirpSync(this.dir);
+        fs.writeFileSync(this.file, script(this.options), { mode: 0o755 });
+    }
+
+    /**
+     * Back to the default behaviour with a stopped cluster and an empty invocation log. Invocations
+     * still hanging are killed.
+     */
+    reset() {
+        const pids = path.join(this.dir, 'hanging.pids');
+        if (fs.existsSync(pids)) {
+            fs.readFileSync(pids, 'utf8').split('\n').filter(line => line.length > 0).forEach(pid => {
+                try {
+                    process.kill(+pid, 'SIGKILL');
+                } catch (err) {
+                    // already gone
+                }
+            });
+            fs.removeSync(pids);
+        }
+        this.options = Object.assign({}, defaults);
+        this.configure({});
+        fs.removeSync(path.join(this.dir, '.minishift-state'));
+        fs.removeSync(path.join(this.dir, 'invocations.log'));
+    }
+
+    /**
+     * Arguments of every invocation so far, oldest first
+     */
+    invocations(): string[][] {
+        const log = path.join(this.dir, 'invocations.log');
+        if (!fs.existsSync(log)) {
+            return [];
+        }
+        return fs.readFileSync(log, 'utf8').split('\n').filter(line => line.length > 0).map(line => line.split('\t'));
+    }
+
+    /**
+     * Whether the fake cluster is running
+     */
+    isRunning(): boolean {
+        const state = path.join(this.dir, '.minishift-state');
+        return fs.existsSync(state) && fs.readFileSync(state, 'utf8').trim() === 'Running';
+    }
+}
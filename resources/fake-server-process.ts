@@ -0,0 +1,105 @@
+import * as net from 'net';
+
+/**
+ * Stand-in for a server process launched by the client: prints WildFly-like boot messages, opens the
+ * management port after a delay and answers HTTP management requests as a running server would. It
+ * stops on SIGTERM or SIGINT and when a management request asks for the shutdown operation. Arguments
+ * after -- are the launch command it stands in for.
+ *
+ *     fake-server-process.ts [--port 9990] [--delay 1000] [-- command...]
+ */
+
+export const MANAGEMENT_PORT = 9990;
+
+interface FakeOptions {
+    port: number;
+    delay: number;
+    command: string[];
+}
+
+function parseArgs(args: string[]): FakeOptions {
+    const options: FakeOptions = { port: MANAGEMENT_PORT, delay: 1000, command: [] };
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--') {
+            options.command = args.slice(i + 1);
+            break;
+        } else if (args[i] === '--port') {
+            options.port = +args[++i];
+        } else if (args[i] === '--delay') {
+            options.delay = +args[++i];
+        }
+    }
+    return options;
+}
+
+/**
+ * Collects an HTTP request from a socket, a connection that sends no HTTP is left alone
+ */
+function readRequest(socket: net.Socket, handle: (head: string, body: string) => void) {
+    let received = '';
+    const onData = (data: Buffer) => {
+        received += data.toString();
+        const end = received.indexOf('\r\n\r\n');
+        if (!/^(GET|POST) /.test(received) || end < 0) {
+            return;
+        }
+        const length = /Content-Length:\s*(\d+)/i.exec(received.slice(0, end));
+        const body = received.slice(end + 4);
+        if (body.length >= (length ? +length[1] : 0)) {
+            socket.removeListener('data', onData);
+            handle(received.slice(0, end), body);
+        }
+    };
+    socket.on('data', onData);
+}
+
+function isShutdown(body: string): boolean {
+    try {
+        return JSON.parse(body).operation === 'shutdown';
+    } catch (err) {
+        return false;
+    }
+}
+
+function run(options: FakeOptions) {
+    const started = Date.now();
+    console.log(`WFLYSRV0049: Fake server process (pid ${process.pid}) starting`);
+    if (options.command.length > 0) {
+        console.log(`Standing in for ${options.command.join(' ')}`);
+    }
+
+    const server = net.createServer(socket => {
+        socket.on('error', () => socket.destroy());
+        readRequest(socket, (head, request) => {
+            const shutdown = isShutdown(request);
+            const body = JSON.stringify({ outcome: 'success', result: shutdown ? null : 'running' });
+            socket.end(`HTTP/1.1 200 OK\r\nContent-Type: application/json\r\nContent-Length: ${body.length}\r\n`
+                + `Connection: close\r\n\r\n${body}`, () => {
+                if (shutdown) {
+                    console.log('WFLYSRV0236: Shutdown requested through the management interface');
+                    stop();
+                }
+            });
+        });
+    });
+    server.on('error', err => {
+        console.error(`Cannot open management port ${options.port}: ${err.message}`);
+        process.exit(1);
+    });
+    setTimeout(() => server.listen(options.port, () => {
+        console.log(`WFLYSRV0060: Http management interface listening on port ${options.port}`);
+        console.log(`WFLYSRV0025: Fake server process started in ${Date.now() - started}ms`);
+    }), options.delay);
+
+    const stop = () => {
+        console.log(`WFLYSRV0050: Fake server process stopped in ${Date.now() - started}ms`);
+        server.close();
+        process.exit(0);
+    };
+    process.on('SIGTERM', stop);
+    process.on('SIGINT', stop);
+}
+
+if (require.main === module) {
+    run(parseArgs(process.argv.slice(2)));
+}
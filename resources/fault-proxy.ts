@@ -0,0 +1,296 @@
+import * as net from 'net';
+
+/**
+ * TCP proxy that sits between an RSP client and the server and misbehaves on request. It
+ * understands Content-Length framing, so faults apply to whole JSON-RPC messages: frames can be
+ * held back, delayed, reordered and written in tiny chunks, and connections can be cut right
+ * after a given request went through.
+ */
+
+/** upstream is client to server, downstream is server to client */
+export type Direction = 'upstream' | 'downstream';
+
+export interface Faults {
+    /** milliseconds every frame is held before it is written */
+    delay?: number;
+    /** maximum number of bytes per write, frames are written whole when not set */
+    chunkSize?: number;
+    /** milliseconds between two chunks of a frame */
+    chunkInterval?: number;
+    /** number of frames collected and written in reverse order, incomplete windows are flushed after reorderTimeout */
+    reorderWindow?: number;
+    /** milliseconds to wait for a reorder window to fill */
+    reorderTimeout?: number;
+}
+
+export interface ForwardedFrame {
+    /** sequence number of the proxied connection, counting from 1 */
+    connection: number;
+    direction: Direction;
+    message: any;
+    /** number of writes the frame was split into */
+    writes: number;
+}
+
+const HEADER_END = '\r\n\r\n';
+
+function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * One direction of one proxied connection
+ */
+class Channel {
+    private buffer = Buffer.alloc(0);
+    private held: Buffer[] = [];
+    private window: Buffer[] = [];
+    private windowTimer: NodeJS.Timer;
+    private tail: Promise<void> = Promise.resolve();
+
+    constructor(readonly direction: Direction, private proxy: FaultProxy, private pair: Pair, private target: net.Socket) {}
+
+    receive(data: Buffer) {
+        this.buffer = Buffer.concat([this.buffer, data]);
+        while (true) {
+            const end = this.buffer.indexOf(HEADER_END);
+            if (end < 0) {
+                return;
+            }
+            const match = /Content-Length:\s*(\d+)/i.exec(this.buffer.toString('ascii', 0, end));
+            const length = match ? Number(match[1]) : 0;
+            const size = end + HEADER_END.length + length;
+            if (this.buffer.length < size) {
+                return;
+            }
+            const frame = this.buffer.slice(0, size);
+            this.buffer = this.buffer.slice(size);
+            if (this.proxy.isStalled(this.direction)) {
+                this.held.push(frame);
+            } else {
+                this.accept(frame);
+            }
+        }
+    }
+
+    /**
+     * Forwards the frames held back while the direction was stalled
+     */
+    release() {
+        const held = this.held;
+        this.held = [];
+        held.forEach(frame => this.accept(frame));
+    }
+
+    private accept(frame: Buffer) {
+        const faults = this.proxy.faults(this.direction);
+        if (!faults.reorderWindow || faults.reorderWindow < 2) {
+            this.enqueue(frame);
+            return;
+        }
+        this.window.push(frame);
+        if (this.window.length >= faults.reorderWindow) {
+            this.flushWindow();
+        } else if (!this.windowTimer) {
+            this.windowTimer = setTimeout(() => this.flushWindow(), faults.reorderTimeout || 500);
+        }
+    }
+
+    private flushWindow() {
+        clearTimeout(this.windowTimer);
+        this.windowTimer = undefined;
+        const frames = this.window.reverse();
+        this.window = [];
+        frames.forEach(frame => this.enqueue(frame));
+    }
+
+    private enqueue(frame: Buffer) {
+        this.tail = this.tail.then(() => this.write(frame)).catch(() => undefined);
+    }
+
+    private async write(frame: Buffer) {
+        const faults = this.proxy.faults(this.direction);
+        if (faults.delay) {
+            await wait(faults.delay);
+        }
+        const chunkSize = faults.chunkSize || frame.length;
+        let writes = 0;
+        for (let offset = 0; offset < frame.length; offset += chunkSize) {
+            if (writes > 0 && faults.chunkInterval) {
+                await wait(faults.chunkInterval);
+            }
+            if (this.target.destroyed) {
+                return;
+            }
+            this.target.write(frame.slice(offset, offset + chunkSize));
+            writes++;
+        }
+        const header = frame.indexOf(HEADER_END) + HEADER_END.length;
+        const message = JSON.parse(frame.toString('utf8', header));
+        this.proxy.frames.push({ connection: this.pair.number, direction: this.direction, message, writes });
+        this.proxy.forwarded(this.pair, this.direction, message);
+    }
+}
+
+interface Pair {
+    number: number;
+    client: net.Socket;
+    server: net.Socket;
+}
+
+interface DropRequest {
+    method: string;
+    resolve: () => void;
+}
+
+export class FaultProxy {
+    /** every frame written so far, in the order the proxy wrote them */
+    readonly frames: ForwardedFrame[] = [];
+    private server: net.Server;
+    private pairs: Pair[] = [];
+    private channels: Channel[] = [];
+    private settings: { [direction: string]: Faults } = { upstream: {}, downstream: {} };
+    private stalled: { [direction: string]: boolean } = { upstream: false, downstream: false };
+    private drops: DropRequest[] = [];
+    private accepted = 0;
+    // upstream connections still being established
+    private connecting = new Set<Promise<void>>();
+
+    /**
+     * @param targetPort port of the RSP server
+     * @param targetHost host of the RSP server
+     */
+    constructor(private targetPort: number, private targetHost = 'localhost') {}
+
+    /**
+     * Starts accepting clients
+     *
+     * @returns promise of the port clients should connect to
+     */
+    start(port = 0): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.server = net.createServer(client => this.accept(client));
+            this.server.once('error', reject);
+            this.server.listen(port, 'localhost', () => resolve(this.port));
+        });
+    }
+
+    get port(): number {
+        return (this.server.address() as net.AddressInfo).port;
+    }
+
+    /**
+     * Number of client connections currently proxied
+     */
+    get connections(): number {
+        return this.pairs.length;
+    }
+
+    /**
+     * Sets the faults applied to one direction from now on, replacing the previous ones
+     */
+    setFaults(direction: Direction, faults: Faults) {
+        this.settings[direction] = Object.assign({}, faults);
+    }
+
+    faults(direction: Direction): Faults {
+        return this.settings[direction];
+    }
+
+    /**
+     * Holds back all frames in one direction until {@link FaultProxy.resume} is called
+     */
+    stall(direction: Direction) {
+        this.stalled[direction] = true;
+    }
+
+    resume(direction: Direction) {
+        this.stalled[direction] = false;
+        this.channels.filter(channel => channel.direction === direction).forEach(channel => channel.release());
+    }
+
+    isStalled(direction: Direction): boolean {
+        return this.stalled[direction];
+    }
+
+    /**
+     * Cuts the connection right after the next request with the given method reached the server
+     *
+     * @returns promise resolved once the connection is cut
+     */
+    dropAfter(method: string): Promise<void> {
+        return new Promise(resolve => this.drops.push({ method, resolve }));
+    }
+
+    /**
+     * Cuts every proxied connection
+     */
+    dropAll() {
+        this.pairs.forEach(pair => this.drop(pair));
+    }
+
+    /**
+     * Cuts all connections and stops accepting new ones
+     */
+    stop(): Promise<void> {
+        this.pairs.forEach(pair => pair.server.destroy());
+        this.dropAll();
+        if (!this.server) {
+            return Promise.resolve();
+        }
+        const server = this.server;
+        this.server = null;
+        return new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    forwarded(pair: Pair, direction: Direction, message: any) {
+        if (direction !== 'upstream' || !message.method) {
+            return;
+        }
+        const drop = this.drops.find(request => request.method === message.method);
+        if (drop) {
+            this.drops = this.drops.filter(request => request !== drop);
+            this.drop(pair);
+            drop.resolve();
+        }
+    }
+
+    private accept(client: net.Socket) {
+        client.setNoDelay(true);
+        const server = net.connect(this.targetPort, this.targetHost);
+        server.setNoDelay(true);
+        const pair = { number: ++this.accepted, client, server };
+        const upstream = new Channel('upstream', this, pair, server);
+        const downstream = new Channel('downstream', this, pair, client);
+        const connected = new Promise<void>(resolve => {
+            server.once('connect', resolve);
+            server.once('close', resolve);
+        });
+        this.connecting.add(connected);
+        connected.then(() => this.connecting.delete(connected));
+        // a request is only forwarded once every accepted client is known to the server, so that
+        // clients connected before it was sent also receive the notifications it causes
+        client.on('data', (data: Buffer) => this.connecting.size === 0
+            ? upstream.receive(data)
+            : Promise.all(Array.from(this.connecting)).then(() => upstream.receive(data)));
+        server.on('data', (data: Buffer) => downstream.receive(data));
+        const close = () => {
+            this.drop(pair);
+            this.channels = this.channels.filter(channel => channel !== upstream && channel !== downstream);
+        };
+        client.on('close', close);
+        server.on('close', close);
+        client.on('error', close);
+        server.on('error', close);
+        this.pairs.push(pair);
+        this.channels.push(upstream, downstream);
+    }
+
+    private drop(pair: Pair) {
+        pair.client.destroy();
+        // end instead of destroy, so the server still reads what was written before the cut
+        pair.server.end();
+        setTimeout(() => pair.server.destroy(), 1000).unref();
+        this.pairs = this.pairs.filter(existing => existing !== pair);
+    }
+}
@@ -0,0 +1,234 @@
+import { RSPClient, Protocol, ServerState } from 'rsp-client';
+import * as server from './server-util';
+import { TrafficRecorder, TranscriptStore, TranscriptMode, TranscriptMessage, normalize } from './transcript';
+import { CoverageTracker, writeCoverage } from './coverage';
+import { isCaptureEnabled, attach, Attachment, LogTail } from './test-logs';
+import { processGuard } from './process-guard';
+import * as os from 'os';
+import * as path from 'path';
+import 'mocha';
+
+/**
+ * Shared RSP server for the whole run. The root hooks below boot the server once, or connect to an
+ * already running one when RSP_PORT is set, and reset its model through the protocol before the
+ * first and after every top level suite. Suites obtain the connected client with {@link getClient}.
+ */
+
+const reusedPort = process.env.RSP_PORT ? +process.env.RSP_PORT : undefined;
+const harness = new server.RspServerHarness();
+const states = new Map<string, number>();
+// the mock's traffic must not stand in for the distribution's
+const transcriptDir = process.env.RSP_TRANSCRIPT_DIR || (process.env.RSP_MOCK ? path.resolve('transcripts', 'mock') : undefined);
+const transcripts = process.env.RSP_TRANSCRIPTS
+    ? new TranscriptStore(process.env.RSP_TRANSCRIPTS as TranscriptMode, transcriptDir) : undefined;
+const coverage = process.env.RSP_COVERAGE ? new CoverageTracker() : undefined;
+
+let client: RSPClient;
+let port: number;
+let recorder: TrafficRecorder;
+
+// server logs attached to failed tests, along with the RSP output and the protocol traffic
+const serverLogs = [new LogTail('WildFly server.log', path.resolve('./wildfly/standalone/log/server.log'))];
+let testStart: number;
+let logMarks: number[];
+
+/**
+ * Client connected to the shared server, available from the suites' before hooks on
+ */
+export function getClient(): RSPClient {
+    if (!client) {
+        throw new Error('The shared RSP client is not connected, make sure resources/fixture.ts is loaded by mocha');
+    }
+    return client;
+}
+
+/**
+ * Port of the shared server, for suites that open connections of their own
+ */
+export function getPort(): number {
+    return port;
+}
+
+/**
+ * Harness running the shared server, not started when an existing server is reused via RSP_PORT
+ */
+export function getHarness(): server.RspServerHarness {
+    return harness;
+}
+
+/**
+ * Whether the shared server was booted by this run rather than reused through RSP_PORT
+ */
+export function isOwnServer(): boolean {
+    return reusedPort === undefined;
+}
+
+/**
+ * Places the transcript recorder in front of the server, keeping its port when the server moves
+ *
+ * @returns port clients should connect to
+ */
+async function record(serverPort: number): Promise<number> {
+    if (recorder && recorder.targetPort === serverPort) {
+        return recorder.port;
+    }
+    const previousPort = recorder ? recorder.port : 0;
+    if (recorder) {
+        await recorder.stop();
+    }
+    recorder = new TrafficRecorder(serverPort);
+    return recorder.start(previousPort);
+}
+
+/**
+ * Connects the shared client to the given port, replacing the previous connection
+ */
+export async function connect(serverPort: number): Promise<RSPClient> {
+    if (client) {
+        client.disconnect();
+    }
+    port = transcripts || coverage || isCaptureEnabled() ? await record(serverPort) : serverPort;
+    client = new RSPClient('localhost', port);
+    await client.connect();
+    client.onServerStateChange(change => states.set(change.server.id, change.state));
+    return client;
+}
+
+/**
+ * Restarts the shared server and reconnects the shared client. The client is replaced, so
+ * suites have to call {@link getClient} again afterwards.
+ */
+export async function restartServer(): Promise<RSPClient> {
+    if (!isOwnServer()) {
+        throw new Error('The shared RSP server is reused through RSP_PORT and cannot be restarted');
+    }
+    client.disconnect();
+    client = null;
+    states.clear();
+    return connect(await harness.restart());
+}
+
+/**
+ * Stops every server the model knows to be running, then deletes all servers and discovery paths
+ */
+export async function resetServer(): Promise<void> {
+    const handles = await client.getServerHandles();
+    for (const handle of handles) {
+        const state = states.get(handle.id);
+        if (state !== undefined && state !== ServerState.STOPPED) {
+            await client.stopServerSync({ id: handle.id, force: true }, 10000);
+        }
+        await client.deleteServerSync(handle);
+    }
+    states.clear();
+
+    const paths: Protocol.DiscoveryPath[] = await client.getDiscoveryPaths();
+    for (const discoveryPath of paths) {
+        await client.removeDiscoveryPathSync(discoveryPath);
+    }
+}
+
+before(async function() {
+    this.timeout(300000);
+    await server.getWildfly();
+    if (isOwnServer()) {
+        harness.clearData();
+        await harness.download();
+        await connect(await harness.start());
+    } else {
+        console.log(`Reusing RSP server on port ${reusedPort}`);
+        await connect(reusedPort);
+    }
+    await resetServer();
+
+    this.test.parent.suites.forEach(suite => {
+        // before the reset, which stops the servers a suite left running and would hide the leak
+        suite.afterAll('check for leaked WildFly processes', async function() {
+            this.timeout(30000);
+            await processGuard.checkNoWildfly(suite.title);
+        });
+        suite.afterAll('reset the shared RSP server', async function() {
+            this.timeout(30000);
+            await resetServer();
+        });
+    });
+});
+
+processGuard.install();
+
+if (coverage) {
+    coverage.instrumentClient();
+}
+
+/**
+ * Everything logged while the current test ran, long strings in the traffic shortened
+ */
+function failureLogs(messages: TranscriptMessage[]): Attachment[] {
+    const rspLog = isOwnServer() ? harness.getLog(testStart) : [];
+    const shorten = (key: string, value: any) => typeof value === 'string' && value.length > 4096
+        ? `${value.slice(0, 4096)}... (${value.length} characters)` : value;
+    return [
+        { name: 'RSP stdout', content: rspLog.filter(chunk => chunk.stream === 'stdout').map(chunk => chunk.text).join('') },
+        { name: 'RSP stderr', content: rspLog.filter(chunk => chunk.stream === 'stderr').map(chunk => chunk.text).join('') },
+        ...serverLogs.map((tail, index) => ({ name: tail.name, content: tail.since(logMarks[index]) })),
+        { name: 'Protocol traffic', content: messages.length > 0 ? JSON.stringify(messages, shorten, 2) : '' }
+    ].filter(attachment => attachment.content.length > 0);
+}
+
+beforeEach(function() {
+    if (recorder) {
+        recorder.begin();
+    }
+    if (isCaptureEnabled()) {
+        testStart = Date.now();
+        logMarks = serverLogs.map(tail => tail.mark());
+    }
+    if (coverage) {
+        coverage.setTest(this.currentTest.fullTitle());
+    }
+});
+
+afterEach(function() {
+    if (this.currentTest.isPending()) {
+        return;
+    }
+    processGuard.scan(this.currentTest.fullTitle());
+    const messages = recorder ? recorder.end() : [];
+    if (isCaptureEnabled() && this.currentTest.state === 'failed') {
+        attach(this.currentTest, ...failureLogs(messages));
+    }
+    if (transcripts) {
+        transcripts.check(this.currentTest.titlePath(), normalize(messages, {
+            cwd: process.cwd(),
+            'rsp.home': isOwnServer() ? harness.options.userHome : undefined,
+            'java.home': process.env.JAVA_HOME,
+            tmp: os.tmpdir()
+        }));
+    }
+    if (coverage) {
+        coverage.addTraffic(messages);
+        coverage.setTest(undefined);
+    }
+});
+
+after(async function() {
+    this.timeout(30000);
+    if (client) {
+        client.disconnect();
+        client = null;
+    }
+    if (recorder) {
+        await recorder.stop();
+    }
+    if (isOwnServer()) {
+        await harness.stop();
+        harness.removeHome();
+    }
+    if (coverage) {
+        coverage.restoreClient();
+        writeCoverage(coverage.report(), process.env.RSP_COVERAGE_DIR || 'protocol-coverage');
+    }
+    if (transcripts) {
+        transcripts.report();
+    }
+});
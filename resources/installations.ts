@@ -0,0 +1,192 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+/**
+ * Generator for minimal on-disk server layouts, carrying just the files the RSP looks at when
+ * recognizing an installation: jboss-modules.jar and its manifest, bin/product.conf, the product
+ * module manifest, version.txt and, for Minishift, an executable printing its version.
+ */
+
+export interface Installation {
+    /** directory or file name of the generated installation */
+    name: string;
+    typeCategory: string;
+    specificType: string;
+    fullVersion: string;
+    /** adapter the RSP should assign to the installation */
+    serverAdapterTypeId: string;
+}
+
+function wildfly(fullVersion: string, adapter: string): Installation {
+    return { name: `wildfly-${fullVersion}`, typeCategory: 'WildFly', specificType: 'WildFly',
+        fullVersion, serverAdapterTypeId: `org.jboss.ide.eclipse.as.wildfly.${adapter}` };
+}
+
+function eap(fullVersion: string, adapter: string): Installation {
+    return { name: `jboss-eap-${fullVersion}`, typeCategory: 'EAP', specificType: 'EAP',
+        fullVersion, serverAdapterTypeId: `org.jboss.ide.eclipse.as.eap.${adapter}` };
+}
+
+function minishift(fullVersion: string): Installation {
+    return { name: `minishift-${fullVersion}`, typeCategory: 'MINISHIFT', specificType: 'MINISHIFT',
+        fullVersion, serverAdapterTypeId: 'org.jboss.tools.openshift.cdk.server.type.minishift.v1_12' };
+}
+
+/**
+ * Every supported server type, with several versions where the adapter covers a version range
+ */
+export const installations: Installation[] = [
+    wildfly('10.0.0.Final', '100'),
+    wildfly('10.1.0.Final', '100'),
+    wildfly('11.0.0.Final', '110'),
+    wildfly('12.0.0.Final', '120'),
+    wildfly('13.0.0.Final', '130'),
+    eap('6.0.0.GA', '60'),
+    eap('6.1.0.GA', '61'),
+    eap('6.4.0.GA', '61'),
+    eap('7.0.0.GA', '70'),
+    eap('7.1.0.GA', '71'),
+    minishift('1.12.0'),
+    minishift('1.14.0')
+];
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Writes a zip archive with deflated entries, enough for a jar the JVM and the RSP can read
+ */
+export function writeZip(file: string, entries: { [name: string]: string }) {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+    for (const name of Object.keys(entries)) {
+        const data = Buffer.from(entries[name]);
+        const compressed = zlib.deflateRawSync(data);
+        const fileName = Buffer.from(name);
+        const crc = crc32(data);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(8, 8);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(data.length, 22);
+        local.writeUInt16LE(fileName.length, 26);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(data.length, 24);
+        central.writeUInt16LE(fileName.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        locals.push(local, fileName, compressed);
+        centrals.push(central, fileName);
+        offset += local.length + fileName.length + compressed.length;
+    }
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(centrals.length / 2, 8);
+    end.writeUInt16LE(centrals.length / 2, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    fs.writeFileSync(file, Buffer.concat([...locals, directory, end]));
+}
+
+function manifest(entries: { [key: string]: string }): string {
+    return ['Manifest-Version: 1.0', ...Object.keys(entries).map(key => `${key}: ${entries[key]}`), '', ''].join('\r\n');
+}
+
+function writeFile(file: string, content: string, mode?: number) {
+    fs.ensureDirSync(path.dirname(file));
+    fs.writeFileSync(file, content, mode ? { mode } : undefined);
+}
+
+function createJBoss(home: string, installation: Installation) {
+    const isEap = installation.typeCategory === 'EAP';
+    const slot = isEap ? 'eap' : 'wildfly-full';
+    // EAP 6.0 predates module layers
+    const layered = !(isEap && installation.fullVersion.startsWith('6.0'));
+    const modules = layered ? path.join(home, 'modules', 'system', 'layers', 'base') : path.join(home, 'modules');
+
+    fs.ensureDirSync(home);
+    writeZip(path.join(home, 'jboss-modules.jar'), {
+        'META-INF/MANIFEST.MF': manifest({
+            'Main-Class': 'org.jboss.modules.Main',
+            'Implementation-Title': 'JBoss Modules',
+            'Implementation-Version': '1.8.5.Final'
+        })
+    });
+    writeFile(path.join(home, 'bin', 'product.conf'), `slot=${slot}\n`);
+    writeFile(path.join(home, 'bin', 'standalone.sh'), '#!/bin/sh\n', 0o755);
+    writeFile(path.join(home, 'standalone', 'configuration', 'standalone.xml'), '<server xmlns="urn:jboss:domain:1.0"/>\n');
+    writeFile(path.join(modules, 'org', 'jboss', 'as', 'product', slot, 'dir', 'META-INF', 'MANIFEST.MF'), manifest({
+        'JBoss-Product-Release-Name': isEap ? 'JBoss EAP' : 'WildFly Full',
+        'JBoss-Product-Release-Version': installation.fullVersion
+    }));
+    if (isEap) {
+        writeFile(path.join(home, 'version.txt'),
+            `Red Hat JBoss Enterprise Application Platform - Version ${installation.fullVersion}\n`);
+    }
+}
+
+/**
+ * Writes an executable standing in for the minishift binary, answering 'minishift version'
+ */
+export function createMinishiftBinary(dir: string, fullVersion: string): string {
+    const file = path.join(dir, 'minishift');
+    writeFile(file, [
+        '#!/bin/sh',
+        'if [ "$1" = "version" ]; then',
+        `    echo "minishift v${fullVersion}+1ec5877"`,
+        '    exit 0',
+        'fi',
+        'exit 1',
+        ''
+    ].join('\n'), 0o755);
+    return file;
+}
+
+/**
+ * Generates an installation below the given root
+ *
+ * @returns location the RSP should report for the installation, the installation directory
+ *  or, for Minishift, the binary itself
+ */
+export function createInstallation(root: string, installation: Installation): string {
+    const home = path.join(root, installation.name);
+    if (installation.typeCategory === 'MINISHIFT') {
+        return createMinishiftBinary(home, installation.fullVersion);
+    }
+    createJBoss(home, installation);
+    return home;
+}
+
+/**
+ * Creates a fresh temporary directory for generated layouts
+ */
+export function createRoot(prefix = 'rsp-installations-'): string {
+    return fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+}
@@ -0,0 +1,91 @@
+import { Protocol } from 'rsp-client';
+
+/**
+ * Java launch command returned by getServerLaunchCommand, split into its parts
+ */
+export interface LaunchCommand {
+    /** the java executable */
+    java: string;
+    /** JVM options other than system properties and the classpath, such as -Xmx512m or -agentlib:jdwp=... */
+    jvmArgs: string[];
+    /** -D system properties given to the JVM, before the main class or jar */
+    systemProperties: { [name: string]: string };
+    classpath: string[];
+    /** main class, undefined when launching with -jar */
+    mainClass: string;
+    /** jar launched with -jar, undefined when launching a main class */
+    jar: string;
+    /** arguments after the main class or jar */
+    programArgs: string[];
+    workingDir: string;
+}
+
+// JVM options whose value is the following argument
+const optionsWithValue = ['-cp', '-classpath', '--class-path', '-p', '--module-path', '--add-modules'];
+
+function unquote(arg: string): string {
+    return arg.length > 1 && arg.startsWith('"') && arg.endsWith('"') ? arg.slice(1, -1) : arg;
+}
+
+function splitProperty(arg: string): [string, string] {
+    const separator = arg.indexOf('=');
+    return separator < 0 ? [arg.slice(2), ''] : [arg.slice(2, separator), arg.slice(separator + 1)];
+}
+
+/**
+ * Parses a java command line into the executable, JVM options, system properties,
+ * launch target and program arguments
+ *
+ * @throws Error when an option that takes a value, such as -cp or -jar, ends the command line
+ */
+export function parseLaunchCommand(details: Protocol.CommandLineDetails): LaunchCommand {
+    const args = details.cmdLine.map(unquote);
+    const command: LaunchCommand = {
+        java: args[0],
+        jvmArgs: [],
+        systemProperties: {},
+        classpath: [],
+        mainClass: undefined,
+        jar: undefined,
+        programArgs: [],
+        workingDir: details.workingDir
+    };
+
+    let index = 1;
+    const valueOf = (option: string) => {
+        if (index + 1 >= args.length) {
+            throw new Error(`Cannot parse launch command, ${option} is missing its value: ${args.join(' ')}`);
+        }
+        return args[++index];
+    };
+    for (; index < args.length; index++) {
+        const arg = args[index];
+        if (arg === '-jar') {
+            command.jar = valueOf(arg);
+            break;
+        }
+        if (!arg.startsWith('-')) {
+            command.mainClass = arg;
+            break;
+        }
+        if (arg.startsWith('-D')) {
+            const [name, value] = splitProperty(arg);
+            command.systemProperties[name] = value;
+        } else if (arg === '-cp' || arg === '-classpath' || arg === '--class-path') {
+            command.classpath.push(...valueOf(arg).split(/[:;]/));
+        } else if (optionsWithValue.indexOf(arg) >= 0) {
+            command.jvmArgs.push(arg, valueOf(arg));
+        } else {
+            command.jvmArgs.push(arg);
+        }
+    }
+    command.programArgs = args.slice(index + 1);
+    return command;
+}
+
+/**
+ * Finds the JDWP agent option of a command, either -agentlib:jdwp or the older -Xrunjdwp form
+ */
+export function debugAgent(command: LaunchCommand): string {
+    return command.jvmArgs.find(arg => arg.startsWith('-agentlib:jdwp=') || arg.startsWith('-Xrunjdwp:'));
+}
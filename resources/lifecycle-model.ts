@@ -0,0 +1,301 @@
+import * as chai from 'chai';
+import { RSPClient, Protocol, ServerState } from 'rsp-client';
+import { waitForState } from './notifications';
+import { runtimeServerType } from './runtime';
+import * as path from 'path';
+
+const expect = chai.expect;
+
+/**
+ * Model-based testing of the server model: random sequences of lifecycle requests are run against
+ * the RSP while a reference model predicts the severity of every returned status and the server
+ * handles and discovery paths afterwards. A failing sequence is shrunk by removing commands for as
+ * long as the shorter sequence still fails.
+ */
+
+export type Command =
+    { kind: 'createServer', id: string, location: 'wildfly' | 'empty' } |
+    { kind: 'startServer', id: string } |
+    { kind: 'stopServer', id: string, force: boolean } |
+    { kind: 'deleteServer', id: string } |
+    { kind: 'addDiscoveryPath', name: string } |
+    { kind: 'removeDiscoveryPath', name: string };
+
+export interface SequenceFailure {
+    /** index of the command after which the RSP and the model disagreed */
+    step: number;
+    message: string;
+}
+
+/**
+ * Directories the commands refer to
+ */
+export interface ModelContext {
+    /** installation the RSP recognizes */
+    wildflyRoot: string;
+    /** directory the RSP does not recognize as a server */
+    emptyRoot: string;
+    /** parent of the directories used as discovery paths */
+    pathRoot: string;
+}
+
+const OK = 0;
+const ERROR = 4;
+
+const serverIds = ['model-a', 'model-b', 'model-c'];
+const pathNames = ['path-a', 'path-b', 'path-c'];
+
+/**
+ * Reference model of the RSP's servers and discovery paths. Servers are only ever observed once
+ * their state settled, so a server is either stopped or started.
+ */
+export class LifecycleModel {
+    readonly servers = new Map<string, 'stopped' | 'started'>();
+    readonly paths = new Set<string>();
+
+    /**
+     * Whether the command may be issued in the current state. Deleting a started server is left out,
+     * a real server would keep running unmanaged. So is starting a server while another one runs, all
+     * of them share one installation and would compete for its ports.
+     */
+    allows(command: Command): boolean {
+        if (command.kind === 'deleteServer') {
+            return this.servers.get(command.id) !== 'started';
+        }
+        if (command.kind === 'startServer') {
+            return Array.from(this.servers.keys()).every(id => id === command.id || this.servers.get(id) !== 'started');
+        }
+        return true;
+    }
+
+    /**
+     * Applies the command and returns the status severity the RSP should answer it with
+     */
+    apply(command: Command): number {
+        const state = (command.kind !== 'addDiscoveryPath' && command.kind !== 'removeDiscoveryPath')
+            ? this.servers.get(command.id) : undefined;
+        switch (command.kind) {
+            case 'createServer':
+                if (state || command.location === 'empty') {
+                    return ERROR;
+                }
+                this.servers.set(command.id, 'stopped');
+                return OK;
+            case 'startServer':
+                if (state !== 'stopped') {
+                    return ERROR;
+                }
+                this.servers.set(command.id, 'started');
+                return OK;
+            case 'stopServer':
+                if (!state || (state === 'stopped' && !command.force)) {
+                    return ERROR;
+                }
+                this.servers.set(command.id, 'stopped');
+                return OK;
+            case 'deleteServer':
+                if (!state) {
+                    return ERROR;
+                }
+                this.servers.delete(command.id);
+                return OK;
+            case 'addDiscoveryPath':
+                if (this.paths.has(command.name)) {
+                    return ERROR;
+                }
+                this.paths.add(command.name);
+                return OK;
+            case 'removeDiscoveryPath':
+                if (!this.paths.has(command.name)) {
+                    return ERROR;
+                }
+                this.paths.delete(command.name);
+                return OK;
+        }
+    }
+}
+
+/**
+ * Deterministic pseudo random numbers in [0, 1), so a failing run can be repeated from its seed
+ */
+export function random(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function pick<T>(next: () => number, items: T[]): T {
+    return items[Math.floor(next() * items.length)];
+}
+
+/**
+ * Picks from the known items most of the time so that most commands succeed, and from all
+ * items otherwise
+ */
+function target(next: () => number, all: string[], known: string[], preferKnown: boolean): string {
+    const preferred = all.filter(item => (known.indexOf(item) >= 0) === preferKnown);
+    return preferred.length > 0 && next() < 0.75 ? pick(next, preferred) : pick(next, all);
+}
+
+function randomCommand(next: () => number, model: LifecycleModel): Command {
+    const servers = Array.from(model.servers.keys());
+    const paths = Array.from(model.paths);
+    switch (pick(next, ['createServer', 'startServer', 'stopServer', 'deleteServer', 'addDiscoveryPath', 'removeDiscoveryPath'])) {
+        case 'createServer':
+            return { kind: 'createServer', id: target(next, serverIds, servers, false), location: next() < 0.8 ? 'wildfly' : 'empty' };
+        case 'startServer':
+            return { kind: 'startServer', id: target(next, serverIds, servers, true) };
+        case 'stopServer':
+            return { kind: 'stopServer', id: target(next, serverIds, servers, true), force: next() < 0.5 };
+        case 'deleteServer':
+            return { kind: 'deleteServer', id: target(next, serverIds, servers, true) };
+        case 'addDiscoveryPath':
+            return { kind: 'addDiscoveryPath', name: target(next, pathNames, paths, false) };
+        default:
+            return { kind: 'removeDiscoveryPath', name: target(next, pathNames, paths, true) };
+    }
+}
+
+/**
+ * Random sequence of commands the model allows
+ */
+export function generateSequence(next: () => number, length: number): Command[] {
+    const model = new LifecycleModel();
+    const commands: Command[] = [];
+    while (commands.length < length) {
+        const command = randomCommand(next, model);
+        if (model.allows(command)) {
+            model.apply(command);
+            commands.push(command);
+        }
+    }
+    return commands;
+}
+
+/**
+ * Whether every command of the sequence is allowed where it occurs
+ */
+export function isValidSequence(commands: Command[]): boolean {
+    const model = new LifecycleModel();
+    return commands.every(command => {
+        const allowed = model.allows(command);
+        model.apply(command);
+        return allowed;
+    });
+}
+
+export function describeCommand(command: Command): string {
+    switch (command.kind) {
+        case 'createServer': return `createServerAsync(${command.location}, ${command.id})`;
+        case 'stopServer': return `stopServerAsync(${command.id}, force: ${command.force})`;
+        case 'addDiscoveryPath':
+        case 'removeDiscoveryPath': return `${command.kind}Async(${command.name})`;
+        default: return `${command.kind}Async(${command.id})`;
+    }
+}
+
+/**
+ * Handle of a model server, all of them are created from the runtime under test
+ */
+function handleOf(id: string): Protocol.ServerHandle {
+    return { id, type: runtimeServerType() };
+}
+
+async function execute(client: RSPClient, command: Command, context: ModelContext): Promise<Protocol.Status> {
+    switch (command.kind) {
+        case 'createServer':
+            return client.createServerAsync(command.location === 'wildfly' ? context.wildflyRoot : context.emptyRoot, command.id);
+        case 'startServer': {
+            const response = await client.startServerAsync({
+                mode: 'run',
+                params: { id: command.id, serverType: runtimeServerType().id, attributes: { 'server.home.dir': context.wildflyRoot } }
+            });
+            return response.status;
+        }
+        case 'stopServer':
+            return client.stopServerAsync({ id: command.id, force: command.force });
+        case 'deleteServer':
+            return client.deleteServerAsync(handleOf(command.id));
+        case 'addDiscoveryPath':
+            return client.addDiscoveryPathAsync(path.join(context.pathRoot, command.name));
+        case 'removeDiscoveryPath':
+            return client.removeDiscoveryPathAsync(path.join(context.pathRoot, command.name));
+    }
+}
+
+/**
+ * Waits for a server the command started or stopped to settle in the state the model expects
+ */
+function settled(client: RSPClient, command: Command, severity: number): Promise<any> {
+    if (severity !== OK || (command.kind !== 'startServer' && command.kind !== 'stopServer')) {
+        return Promise.resolve();
+    }
+    return command.kind === 'startServer'
+        ? waitForState(client, handleOf(command.id), ServerState.STARTED, 60000)
+        : waitForState(client, handleOf(command.id), ServerState.STOPPED, 30000);
+}
+
+/**
+ * Runs the commands against an RSP without servers or discovery paths, comparing every status and
+ * the resulting model with the reference model
+ *
+ * @returns the first disagreement, undefined when there was none
+ */
+export async function runSequence(client: RSPClient, commands: Command[], context: ModelContext): Promise<SequenceFailure> {
+    const model = new LifecycleModel();
+    for (let step = 0; step < commands.length; step++) {
+        const command = commands[step];
+        const expected = model.apply(command);
+        const waiting = settled(client, command, expected);
+        try {
+            const status = await execute(client, command, context);
+            expect(status.severity, `severity of ${describeCommand(command)}: ${status.message}`).equals(expected);
+            await waiting;
+
+            const handles = await client.getServerHandles();
+            expect(handles.map(handle => handle.id).sort(), 'server handles')
+                .deep.equals(Array.from(model.servers.keys()).sort());
+            const paths = await client.getDiscoveryPaths();
+            expect(paths.map(discoveryPath => discoveryPath.filepath).sort(), 'discovery paths')
+                .deep.equals(Array.from(model.paths).map(name => path.join(context.pathRoot, name)).sort());
+        } catch (err) {
+            // keep an unobserved state change from rejecting unhandled
+            waiting.catch(() => undefined);
+            return { step, message: err.message };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Removes commands from a failing sequence, in chunks of decreasing size, for as long as the
+ * remaining sequence is valid and still fails
+ *
+ * @param commands failing sequence
+ * @param fails runs a candidate sequence, resolving to whether it fails
+ * @returns a sequence from which no single command can be removed without it passing
+ */
+export async function shrink(commands: Command[], fails: (commands: Command[]) => Promise<boolean>): Promise<Command[]> {
+    let current = commands;
+    let chunk = Math.max(1, Math.floor(current.length / 2));
+    while (chunk >= 1) {
+        let removed = false;
+        for (let start = 0; start < current.length; start += chunk) {
+            const candidate = [...current.slice(0, start), ...current.slice(start + chunk)];
+            if (candidate.length > 0 && isValidSequence(candidate) && await fails(candidate)) {
+                current = candidate;
+                removed = true;
+                start -= chunk;
+            }
+        }
+        if (!removed) {
+            chunk = Math.floor(chunk / 2);
+        }
+    }
+    return current;
+}
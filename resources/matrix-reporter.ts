@@ -0,0 +1,63 @@
+import * as fs from 'fs-extra';
+import * as Mocha from 'mocha';
+
+/**
+ * Spec reporter that also writes the outcome of every test to the JSON file named by
+ * RSP_MATRIX_RESULTS, for the matrix runner to collect. Load it with --reporter.
+ */
+
+class MatrixReporter extends Mocha.reporters.Spec {
+    constructor(runner: Mocha.Runner, options?: any) {
+        super(runner, options);
+        const results: MatrixReporter.SuiteResults = { tests: [], hookErrors: [] };
+        const outcome = (test: Mocha.Test, state: MatrixReporter.TestOutcome['state'], err?: Error) => results.tests.push({
+            suite: test.parent.titlePath().join(' > '),
+            title: test.title,
+            method: MatrixReporter.methodOf(test),
+            state,
+            error: err ? err.message : undefined
+        });
+
+        runner.on('pass', (test: Mocha.Test) => outcome(test, 'passed'));
+        runner.on('pending', (test: Mocha.Test) => outcome(test, 'pending'));
+        runner.on('fail', (test: Mocha.Runnable, err: Error) => {
+            if (test instanceof Mocha.Hook) {
+                results.hookErrors.push(`${test.fullTitle()}: ${err.message}`);
+            } else {
+                outcome(test as Mocha.Test, 'failed', err);
+            }
+        });
+        runner.on('end', () => {
+            if (process.env.RSP_MATRIX_RESULTS) {
+                fs.outputJsonSync(process.env.RSP_MATRIX_RESULTS, results, { spaces: 2 });
+            }
+        });
+    }
+}
+
+namespace MatrixReporter {
+    export interface TestOutcome {
+        suite: string;
+        title: string;
+        /** protocol method the test exercises, taken from the title or else the suite */
+        method: string;
+        state: 'passed' | 'failed' | 'pending';
+        error?: string;
+    }
+
+    export interface SuiteResults {
+        tests: TestOutcome[];
+        /** failures of hooks, such as the shared server not starting */
+        hookErrors: string[];
+    }
+
+    /**
+     * Test titles start with the method they exercise, as in 'createServer handles non-unique server ids'
+     */
+    export function methodOf(test: Mocha.Runnable): string {
+        const first = test.title.split(' ')[0];
+        return /^[a-z]+[A-Z]\w*$/.test(first) ? first : test.parent.titlePath().join(' > ');
+    }
+}
+
+export = MatrixReporter;
@@ -0,0 +1,152 @@
+import * as cp from 'child_process';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import MatrixReporter = require('./matrix-reporter');
+import { Runtime, runtimeLabel } from './runtime';
+
+/**
+ * Compatibility matrix runner: runs the suites once per combination of RSP distribution version
+ * and server runtime, with archives taken from a local directory, and tabulates pass/fail per
+ * protocol method and combination.
+ *
+ *     npm run matrix -- [config file, matrix.json by default]
+ */
+
+export interface MatrixConfig {
+    /** directory holding the distribution and runtime archives, used as offline mirror */
+    archiveDir: string;
+    rspVersions: string[];
+    runtimes: Runtime[];
+    /** test files to run for every combination */
+    suites: string[];
+    /** directory the table and raw results are written to */
+    output?: string;
+    /** milliseconds one combination may take before it is aborted */
+    timeout?: number;
+}
+
+export interface CombinationResult {
+    rspVersion: string;
+    runtime: string;
+    exitCode: number;
+    results: MatrixReporter.SuiteResults;
+}
+
+export interface CompatibilityTable {
+    /** column headers, one per combination */
+    combinations: string[];
+    methods: string[];
+    /** cells[method][combination] */
+    cells: string[][];
+}
+
+const mocha = require.resolve('mocha/bin/_mocha');
+
+function runCombination(config: MatrixConfig, rspVersion: string, runtime: Runtime): Promise<CombinationResult> {
+    const resultsFile = path.resolve(config.output, 'raw', `${rspVersion}_${runtimeLabel(runtime)}.json`);
+    fs.removeSync(resultsFile);
+    const env = Object.assign({}, process.env, {
+        RSP_VERSION: rspVersion,
+        RSP_RUNTIME: JSON.stringify(runtime),
+        RSP_ARTIFACT_MIRROR: path.resolve(config.archiveDir),
+        RSP_OFFLINE: 'true',
+        RSP_MATRIX_RESULTS: resultsFile
+    });
+    // ts-node is registered with node itself, mocha would only register it after loading the reporter
+    const args = ['-r', 'ts-node/register', mocha, '--file', 'resources/fixture.ts',
+        '--reporter', 'resources/matrix-reporter.ts', ...config.suites];
+
+    console.log(`\n=== RSP ${rspVersion} with ${runtimeLabel(runtime)} ===`);
+    return new Promise(resolve => {
+        const child = cp.spawn(process.execPath, args, { env, stdio: 'inherit' });
+        const timer = setTimeout(() => {
+            console.log(`Aborting RSP ${rspVersion} with ${runtimeLabel(runtime)} after ${config.timeout} ms`);
+            child.kill('SIGTERM');
+        }, config.timeout);
+        child.on('exit', code => {
+            clearTimeout(timer);
+            const results: MatrixReporter.SuiteResults = fs.existsSync(resultsFile)
+                ? fs.readJsonSync(resultsFile) : { tests: [], hookErrors: ['the test run ended without reporting results'] };
+            resolve({ rspVersion, runtime: runtimeLabel(runtime), exitCode: code, results });
+        });
+    });
+}
+
+function cell(tests: MatrixReporter.TestOutcome[], result: CombinationResult): string {
+    if (tests.length === 0) {
+        return result.results.hookErrors.length > 0 ? 'error' : '-';
+    }
+    const failed = tests.filter(test => test.state === 'failed').length;
+    const passed = tests.filter(test => test.state === 'passed').length;
+    if (failed > 0) {
+        return `FAIL ${failed}/${tests.length}`;
+    }
+    return passed > 0 ? 'pass' : 'skip';
+}
+
+/**
+ * Condenses the test outcomes into one cell per method and combination
+ */
+export function compatibilityTable(results: CombinationResult[]): CompatibilityTable {
+    const methods: string[] = [];
+    results.forEach(result => result.results.tests.forEach(test => {
+        if (methods.indexOf(test.method) < 0) {
+            methods.push(test.method);
+        }
+    }));
+    return {
+        combinations: results.map(result => `${result.rspVersion} / ${result.runtime}`),
+        methods,
+        cells: methods.map(method => results.map(result =>
+            cell(result.results.tests.filter(test => test.method === method), result)))
+    };
+}
+
+/**
+ * Renders the table with padded columns for the console
+ */
+export function formatTable(table: CompatibilityTable): string {
+    const rows = [['method', ...table.combinations], ...table.methods.map((method, index) => [method, ...table.cells[index]])];
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    const line = (row: string[]) => row.map((text, column) => text + ' '.repeat(widths[column] - text.length)).join('  ');
+    return [line(rows[0]), widths.map(width => '-'.repeat(width)).join('  '), ...rows.slice(1).map(line)].join('\n');
+}
+
+/**
+ * Renders the table as markdown
+ */
+export function markdownTable(table: CompatibilityTable): string {
+    const row = (cells: string[]) => `| ${cells.join(' | ')} |`;
+    return [row(['method', ...table.combinations]), row(['---', ...table.combinations.map(() => '---')]),
+        ...table.methods.map((method, index) => row([method, ...table.cells[index]]))].join('\n') + '\n';
+}
+
+export async function runMatrix(config: MatrixConfig): Promise<CombinationResult[]> {
+    config = Object.assign({ output: 'matrix-results', timeout: 30 * 60 * 1000 }, config);
+    const results: CombinationResult[] = [];
+    for (const rspVersion of config.rspVersions) {
+        for (const runtime of config.runtimes) {
+            results.push(await runCombination(config, rspVersion, runtime));
+        }
+    }
+
+    const table = compatibilityTable(results);
+    fs.outputJsonSync(path.join(config.output, 'compatibility.json'), { table, results }, { spaces: 2 });
+    fs.outputFileSync(path.join(config.output, 'compatibility.md'), markdownTable(table));
+    console.log(`\n${formatTable(table)}\n`);
+    results.filter(result => result.results.hookErrors.length > 0).forEach(result =>
+        console.log(`${result.rspVersion} / ${result.runtime}:\n  ${result.results.hookErrors.join('\n  ')}`));
+    return results;
+}
+
+if (require.main === module) {
+    const configFile = process.argv[2] || 'matrix.json';
+    runMatrix(fs.readJsonSync(configFile))
+    .then(results => {
+        process.exitCode = results.every(result => result.exitCode === 0) ? 0 : 1;
+    })
+    .catch(err => {
+        console.error(err);
+        process.exitCode = 1;
+    });
+}
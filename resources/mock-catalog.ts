@@ -0,0 +1,181 @@
+import { Protocol } from 'rsp-client';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Server types, attributes and discovery rules of the RSP distribution, as modelled by the mock server
+ */
+
+export interface ServerTypeEntry {
+    type: Protocol.ServerType;
+    required: Protocol.Attributes;
+    optional: Protocol.Attributes;
+    modes: Protocol.ServerLaunchMode[];
+}
+
+const HOME_DIR = 'server.home.dir';
+const HOME_FILE = 'server.home.file';
+const VM_PATH = 'vm.install.path';
+
+const runMode: Protocol.ServerLaunchMode = { mode: 'run', desc: 'A launch mode indicating a simple run.' };
+const debugMode: Protocol.ServerLaunchMode = { mode: 'debug',
+    desc: 'A launch mode indicating a debug launch, which can add the appropriate debugging flags or system properties as required.' };
+
+function jbossType(id: string, name: string): ServerTypeEntry {
+    return {
+        type: { id, visibleName: name,
+            description: `A server adapter capable of discovering and controlling a ${name} runtime instance.` },
+        required: { attributes: { [HOME_DIR]: {
+            type: 'string',
+            description: 'A filesystem path pointing to a server installation\'s root directory' } as Protocol.Attribute } },
+        optional: { attributes: { [VM_PATH]: {
+            type: 'string',
+            description: 'A string representation pointing to a java home. If not set, java.home will be used instead.' } as Protocol.Attribute } },
+        modes: [runMode, debugMode]
+    };
+}
+
+export const MINISHIFT_TYPE = 'org.jboss.tools.openshift.cdk.server.type.minishift.v1_12';
+
+export const serverTypes: ServerTypeEntry[] = [
+    jbossType('org.jboss.ide.eclipse.as.wildfly.100', 'WildFly 10.x'),
+    jbossType('org.jboss.ide.eclipse.as.wildfly.110', 'WildFly 11.x'),
+    jbossType('org.jboss.ide.eclipse.as.wildfly.120', 'WildFly 12.x'),
+    jbossType('org.jboss.ide.eclipse.as.wildfly.130', 'WildFly 13.x'),
+    jbossType('org.jboss.ide.eclipse.as.eap.60', 'JBoss EAP 6.0'),
+    jbossType('org.jboss.ide.eclipse.as.eap.61', 'JBoss EAP 6.1'),
+    jbossType('org.jboss.ide.eclipse.as.eap.70', 'JBoss EAP 7.0'),
+    jbossType('org.jboss.ide.eclipse.as.eap.71', 'JBoss EAP 7.1'),
+    {
+        type: { id: MINISHIFT_TYPE, visibleName: 'Minishift 1.12+',
+            description: 'A server adapter capable of controlling a Minishift 1.12+ runtime instance.' },
+        required: { attributes: { [HOME_FILE]: {
+            type: 'string',
+            description: 'A filesystem path pointing to a minishift binary file.' } as Protocol.Attribute } },
+        optional: { attributes: {
+            'minishift.vmdriver': {
+                type: 'string',
+                description: 'The VM driver minishift should use, for example virtualbox or kvm.' } as Protocol.Attribute,
+            'minishift.profile': {
+                type: 'string',
+                description: 'The minishift profile to start.' } as Protocol.Attribute
+        } },
+        modes: [runMode]
+    }
+];
+
+export function findType(id: string): ServerTypeEntry {
+    return serverTypes.find(entry => entry.type.id === id);
+}
+
+function readManifestVersion(file: string): string {
+    if (!fs.existsSync(file)) {
+        return null;
+    }
+    const match = fs.readFileSync(file, 'utf8').match(/^JBoss-Product-Release-Version:\s*(\S+)/m);
+    return match ? match[1] : null;
+}
+
+function productSlot(home: string): string {
+    const conf = path.join(home, 'bin', 'product.conf');
+    if (!fs.existsSync(conf)) {
+        return null;
+    }
+    const match = fs.readFileSync(conf, 'utf8').match(/^slot=(\S+)/m);
+    return match ? match[1] : null;
+}
+
+function productManifest(home: string, slot: string, layered: boolean): string {
+    const modules = layered ? path.join(home, 'modules', 'system', 'layers', 'base') : path.join(home, 'modules');
+    return path.join(modules, 'org', 'jboss', 'as', 'product', slot, 'dir', 'META-INF', 'MANIFEST.MF');
+}
+
+function wildflyAdapter(fullVersion: string): string {
+    const major = +fullVersion.split('.')[0];
+    return major >= 10 && major <= 13 ? `org.jboss.ide.eclipse.as.wildfly.${major}0` : null;
+}
+
+function eapAdapter(fullVersion: string): string {
+    const [major, minor] = fullVersion.split('.').map(Number);
+    if (major === 6) {
+        return minor === 0 ? 'org.jboss.ide.eclipse.as.eap.60' : 'org.jboss.ide.eclipse.as.eap.61';
+    }
+    if (major === 7) {
+        return minor === 0 ? 'org.jboss.ide.eclipse.as.eap.70' : 'org.jboss.ide.eclipse.as.eap.71';
+    }
+    return null;
+}
+
+function bean(location: string, typeCategory: string, fullVersion: string, adapter: string): Protocol.ServerBean {
+    return {
+        location,
+        typeCategory,
+        specificType: typeCategory,
+        name: path.basename(location),
+        version: fullVersion.split('.').slice(0, 2).join('.'),
+        fullVersion,
+        serverAdapterTypeId: adapter
+    };
+}
+
+function jbossBean(home: string): Protocol.ServerBean {
+    if (!fs.existsSync(path.join(home, 'jboss-modules.jar'))) {
+        return null;
+    }
+    const slot = productSlot(home);
+    if (slot === 'eap') {
+        const version = readManifestVersion(productManifest(home, slot, true))
+            || readManifestVersion(productManifest(home, slot, false));
+        return version ? bean(home, 'EAP', version, eapAdapter(version)) : null;
+    }
+    const version = readManifestVersion(productManifest(home, slot || 'wildfly-full', true));
+    return version ? bean(home, 'WildFly', version, wildflyAdapter(version)) : null;
+}
+
+function minishiftBean(file: string): Protocol.ServerBean {
+    if (path.basename(file) !== 'minishift') {
+        return null;
+    }
+    try {
+        const output = cp.execFileSync(file, ['version'], { timeout: 5000, encoding: 'utf8' });
+        const match = output.match(/minishift v(\d+\.\d+\.\d+)/);
+        if (!match) {
+            return null;
+        }
+        const [major, minor] = match[1].split('.').map(Number);
+        const adapter = major > 1 || minor >= 12 ? MINISHIFT_TYPE : null;
+        return bean(file, 'MINISHIFT', match[1], adapter);
+    } catch (err) {
+        return null;
+    }
+}
+
+/**
+ * Recognizes a server installation at exactly the given location, the way the RSP bean loader does.
+ * Unrecognized locations yield a single bean of the UNKNOWN category.
+ */
+export function findBeans(location: string): Protocol.ServerBean[] {
+    if (!location || !path.isAbsolute(location)) {
+        return [];
+    }
+    let stats: fs.Stats;
+    try {
+        stats = fs.statSync(location);
+    } catch (err) {
+        stats = null;
+    }
+    const found = stats && (stats.isDirectory() ? jbossBean(location) : minishiftBean(location));
+    if (found) {
+        return [found];
+    }
+    return [{
+        location,
+        typeCategory: 'UNKNOWN',
+        specificType: undefined,
+        name: path.basename(location),
+        version: '',
+        fullVersion: undefined,
+        serverAdapterTypeId: undefined
+    }];
+}
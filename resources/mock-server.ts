@@ -0,0 +1,543 @@
+import { Protocol, ServerState } from 'rsp-client';
+import * as rpc from 'vscode-jsonrpc';
+import * as fs from 'fs-extra';
+import * as http from 'http';
+import * as net from 'net';
+import * as path from 'path';
+import { findBeans, findType, serverTypes, MINISHIFT_TYPE } from './mock-catalog';
+
+/**
+ * In-process stand-in for the Felix based RSP server. It speaks the same JSON-RPC protocol
+ * over TCP and keeps its model in memory, simulating server launches with timers instead of
+ * spawning any processes. Select it for the suites by setting RSP_MOCK.
+ */
+
+export interface MockOptions {
+    /** milliseconds between a launch and the server reporting STARTED */
+    startupDelay?: number;
+    /** milliseconds between a stop request and the server reporting STOPPED */
+    shutdownDelay?: number;
+    /** management port of servers the client launched, probed for their state and sent their shutdown */
+    managementPort?: number;
+    /** milliseconds between two polling attempts */
+    pollInterval?: number;
+    /** directory the model is persisted to and restored from, kept in memory only when not set */
+    dataDir?: string;
+}
+
+interface PersistedModel {
+    discoveryPaths: Protocol.DiscoveryPath[];
+    servers: { id: string, serverType: string, attributes: { [index: string]: any } }[];
+}
+
+interface MockServerEntry {
+    handle: Protocol.ServerHandle;
+    attributes: { [index: string]: any };
+    state: number;
+    processId?: string;
+    processCount: number;
+    /** whether the client launched the running server, which is then stopped through its management port */
+    launchedByClient?: boolean;
+    timers: NodeJS.Timer[];
+}
+
+const PLUGIN = 'org.jboss.tools.rsp.server';
+const ERROR = 4;
+const STREAM_TYPE_SYSOUT = 2;
+
+function status(severity: number, message: string): Protocol.Status {
+    return { severity, code: 0, message, trace: '', ok: severity === 0, plugin: PLUGIN };
+}
+
+const OK = status(0, 'ok');
+
+function error(message: string): Protocol.Status {
+    return status(ERROR, message);
+}
+
+const HEADER_END = '\r\n\r\n';
+
+/**
+ * Reads Content-Length framed messages like StreamMessageReader, but survives bad input the way
+ * the RSP does: a header block without a usable Content-Length is dropped and a body that is not
+ * JSON is handed to onMalformed instead of throwing from the socket's data handler.
+ */
+class FrameReader implements rpc.MessageReader {
+    private errorEmitter = new rpc.Emitter<Error>();
+    private closeEmitter = new rpc.Emitter<void>();
+    private partialEmitter = new rpc.Emitter<any>();
+    private buffer = Buffer.alloc(0);
+    private contentLength = -1;
+
+    constructor(private socket: net.Socket, private onMalformed: (body: string) => void) {}
+
+    get onError() { return this.errorEmitter.event; }
+    get onClose() { return this.closeEmitter.event; }
+    get onPartialMessage() { return this.partialEmitter.event; }
+
+    listen(callback: rpc.DataCallback) {
+        this.socket.on('data', (data: Buffer) => {
+            this.buffer = Buffer.concat([this.buffer, data]);
+            this.consume(callback);
+        });
+        this.socket.on('error', err => this.errorEmitter.fire(err));
+        this.socket.on('close', () => this.closeEmitter.fire(undefined));
+    }
+
+    dispose() {
+        this.errorEmitter.dispose();
+        this.closeEmitter.dispose();
+        this.partialEmitter.dispose();
+    }
+
+    private consume(callback: rpc.DataCallback) {
+        while (true) {
+            if (this.contentLength < 0) {
+                const end = this.buffer.indexOf(HEADER_END);
+                if (end < 0) {
+                    return;
+                }
+                const headers = this.buffer.toString('ascii', 0, end).split('\r\n');
+                this.buffer = this.buffer.slice(end + HEADER_END.length);
+                const header = headers.find(line => /^content-length\s*:/i.test(line));
+                const length = header ? Number(header.slice(header.indexOf(':') + 1).trim()) : NaN;
+                if (!Number.isInteger(length) || length < 0) {
+                    this.errorEmitter.fire(new Error(`Missing or invalid Content-Length in ${headers.join(', ')}`));
+                    continue;
+                }
+                this.contentLength = length;
+            }
+            if (this.buffer.length < this.contentLength) {
+                return;
+            }
+            const body = this.buffer.toString('utf8', 0, this.contentLength);
+            this.buffer = this.buffer.slice(this.contentLength);
+            this.contentLength = -1;
+            let message: rpc.Message;
+            try {
+                message = JSON.parse(body);
+            } catch (err) {
+                this.onMalformed(body);
+                continue;
+            }
+            callback(message);
+        }
+    }
+}
+
+/**
+ * Id of a request that could not be parsed, when it can still be made out from the text
+ */
+function salvageId(body: string): number | string {
+    const match = /"id"\s*:\s*(-?\d+|"[^"]*")/.exec(body);
+    return match ? JSON.parse(match[1]) : null;
+}
+
+/**
+ * Rejects parameters that cannot be the object the protocol expects
+ */
+function checkParams(method: string, param: any) {
+    if (param !== null && param !== undefined && (typeof param !== 'object' || Array.isArray(param))) {
+        throw new rpc.ResponseError(rpc.ErrorCodes.InvalidParams, `Invalid parameters for ${method}: ${JSON.stringify(param)}`);
+    }
+}
+
+export class MockRspServer {
+    private server: net.Server;
+    private connections: rpc.MessageConnection[] = [];
+    private sockets = new Set<net.Socket>();
+    private discoveryPaths: Protocol.DiscoveryPath[] = [];
+    private servers = new Map<string, MockServerEntry>();
+    private options: MockOptions;
+
+    constructor(options: MockOptions = {}) {
+        this.options = Object.assign({ startupDelay: 200, shutdownDelay: 100, managementPort: 9990, pollInterval: 100 }, options);
+    }
+
+    /**
+     * Starts listening for clients
+     *
+     * @param port port to listen on, a random free port by default
+     * @returns promise of the port actually used
+     */
+    start(port = 0): Promise<number> {
+        this.load();
+        return new Promise((resolve, reject) => {
+            this.server = net.createServer(socket => this.accept(socket));
+            this.server.once('error', reject);
+            this.server.listen(port, 'localhost', () => {
+                const address = this.server.address() as net.AddressInfo;
+                console.log(`Mock RSP server listening on port ${address.port}`);
+                resolve(address.port);
+            });
+        });
+    }
+
+    /**
+     * Disconnects all clients, cancels pending state changes and closes the listening socket
+     */
+    stop(): Promise<void> {
+        this.servers.forEach(entry => this.cancel(entry));
+        this.connections.forEach(connection => connection.dispose());
+        this.connections = [];
+        // disposing a connection leaves its socket open, server.close would wait for the client to hang up
+        this.sockets.forEach(socket => socket.destroy());
+        this.sockets.clear();
+        if (!this.server) {
+            return Promise.resolve();
+        }
+        const server = this.server;
+        this.server = null;
+        return new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    private modelFile(): string {
+        return this.options.dataDir ? path.join(this.options.dataDir, 'mock-model.json') : null;
+    }
+
+    private load() {
+        const file = this.modelFile();
+        if (!file || !fs.existsSync(file)) {
+            return;
+        }
+        const model: PersistedModel = fs.readJsonSync(file);
+        this.discoveryPaths = model.discoveryPaths;
+        this.servers.clear();
+        model.servers.forEach(server => {
+            const handle = { id: server.id, type: findType(server.serverType).type };
+            this.servers.set(server.id,
+                { handle, attributes: server.attributes, state: ServerState.STOPPED, processCount: 0, timers: [] });
+        });
+    }
+
+    private save() {
+        const file = this.modelFile();
+        if (!file) {
+            return;
+        }
+        const model: PersistedModel = {
+            discoveryPaths: this.discoveryPaths,
+            servers: Array.from(this.servers.values()).map(entry =>
+                ({ id: entry.handle.id, serverType: entry.handle.type.id, attributes: entry.attributes }))
+        };
+        fs.outputJsonSync(file, model, { spaces: 2 });
+    }
+
+    private accept(socket: net.Socket) {
+        socket.setNoDelay(true);
+        this.sockets.add(socket);
+        socket.on('close', () => this.sockets.delete(socket));
+        const writer = new rpc.StreamMessageWriter(socket);
+        const reader = new FrameReader(socket, body => writer.write({ jsonrpc: '2.0', id: salvageId(body),
+            error: { code: rpc.ErrorCodes.ParseError, message: 'Message could not be parsed.' } } as rpc.Message));
+        const connection = rpc.createMessageConnection(reader, writer);
+        const handlers: { [method: string]: (params: any) => any } = {
+            'server/getDiscoveryPaths': () => this.discoveryPaths,
+            'server/findServerBeans': (param: Protocol.DiscoveryPath) => findBeans(param && param.filepath),
+            'server/addDiscoveryPath': (param: Protocol.DiscoveryPath) => this.addDiscoveryPath(param),
+            'server/removeDiscoveryPath': (param: Protocol.DiscoveryPath) => this.removeDiscoveryPath(param),
+            'server/getServerHandles': () => Array.from(this.servers.values()).map(entry => entry.handle),
+            'server/getServerTypes': () => serverTypes.map(entry => entry.type),
+            'server/deleteServer': (param: Protocol.ServerHandle) => this.deleteServer(param),
+            'server/getRequiredAttributes': (param: Protocol.ServerType) => this.typeProperty(param && param.id, 'required'),
+            'server/getOptionalAttributes': (param: Protocol.ServerType) => this.typeProperty(param && param.id, 'optional'),
+            'server/createServer': (param: Protocol.ServerAttributes) => this.createServer(param),
+            'server/getLaunchModes': (param: Protocol.ServerType) => this.typeProperty(param && param.id, 'modes'),
+            'server/getRequiredLaunchAttributes': (param: any) => this.launchAttributes(param),
+            'server/getOptionalLaunchAttributes': (param: any) => this.launchAttributes(param),
+            'server/getLaunchCommand': (param: Protocol.LaunchParameters) => this.launchCommand(param),
+            'server/serverStartingByClient': (param: Protocol.ServerStartingAttributes) => this.startingByClient(param),
+            'server/serverStartedByClient': (param: Protocol.LaunchParameters) => this.startedByClient(param),
+            'server/startServerAsync': (param: Protocol.LaunchParameters) => this.startServer(param),
+            'server/stopServerAsync': (param: Protocol.StopServerAttributes) => this.stopServer(param)
+        };
+        Object.keys(handlers).forEach(method => connection.onRequest(method, (param: any) => {
+            checkParams(method, param);
+            return handlers[method](param);
+        }));
+        connection.onNotification('server/shutdown', () => { this.stop(); });
+        connection.onClose(() => {
+            this.connections = this.connections.filter(existing => existing !== connection);
+        });
+        socket.on('error', () => connection.dispose());
+        this.connections.push(connection);
+        connection.listen();
+    }
+
+    private broadcast(method: string, payload: any) {
+        this.connections.forEach(connection => connection.sendNotification(method, payload));
+    }
+
+    private addDiscoveryPath(param: Protocol.DiscoveryPath): Protocol.Status {
+        if (!param || !param.filepath || !path.isAbsolute(param.filepath)) {
+            return error('Parameter is invalid. Discovery path must be an absolute path.');
+        }
+        if (this.discoveryPaths.find(existing => existing.filepath === param.filepath)) {
+            return error(`Discovery path ${param.filepath} already exists`);
+        }
+        const discoveryPath = { filepath: param.filepath };
+        this.discoveryPaths.push(discoveryPath);
+        this.save();
+        this.broadcast('client/discoveryPathAdded', discoveryPath);
+        return OK;
+    }
+
+    private removeDiscoveryPath(param: Protocol.DiscoveryPath): Protocol.Status {
+        if (!param || !param.filepath) {
+            return error('Parameter is invalid.');
+        }
+        const discoveryPath = this.discoveryPaths.find(existing => existing.filepath === param.filepath);
+        if (!discoveryPath) {
+            return error(`Discovery path ${param.filepath} does not exist`);
+        }
+        this.discoveryPaths = this.discoveryPaths.filter(existing => existing !== discoveryPath);
+        this.save();
+        this.broadcast('client/discoveryPathRemoved', discoveryPath);
+        return OK;
+    }
+
+    private typeProperty(typeId: string, property: 'required' | 'optional' | 'modes') {
+        const entry = findType(typeId);
+        return entry ? entry[property] : null;
+    }
+
+    private launchAttributes(param: any): Protocol.Attributes {
+        const entry = param && findType(param.id);
+        if (!entry || !entry.modes.find(mode => mode.mode === param.mode)) {
+            return null;
+        }
+        return { attributes: {} };
+    }
+
+    private createServer(param: Protocol.ServerAttributes): Protocol.Status {
+        const entry = param && findType(param.serverType);
+        if (!entry || !param.id) {
+            return error('Parameter is invalid. Server type or id not found.');
+        }
+        if (this.servers.has(param.id)) {
+            return error(`A server with id ${param.id} already exists`);
+        }
+        const attributes = param.attributes || {};
+        for (const name of Object.keys(entry.required.attributes)) {
+            if (attributes[name] === undefined || attributes[name] === null) {
+                return error(`Required attribute ${name} is missing`);
+            }
+        }
+        const declared = Object.assign({}, entry.required.attributes, entry.optional.attributes);
+        for (const name of Object.keys(attributes)) {
+            if (declared[name] && declared[name].type === 'string' && typeof attributes[name] !== 'string') {
+                return error(`Attribute ${name} must be of type ${declared[name].type}`);
+            }
+        }
+        const handle: Protocol.ServerHandle = { id: param.id, type: entry.type };
+        this.servers.set(param.id, { handle, attributes, state: ServerState.STOPPED, processCount: 0, timers: [] });
+        this.save();
+        this.broadcast('client/serverAdded', handle);
+        return OK;
+    }
+
+    private deleteServer(param: Protocol.ServerHandle): Protocol.Status {
+        if (!param || !param.id) {
+            return error('Parameter is invalid.');
+        }
+        const entry = this.servers.get(param.id);
+        if (!entry) {
+            return error(`Server not removed: ${param.id}`);
+        }
+        this.cancel(entry);
+        this.servers.delete(param.id);
+        this.save();
+        this.broadcast('client/serverRemoved', entry.handle);
+        return OK;
+    }
+
+    private launchCommand(param: Protocol.LaunchParameters): Protocol.CommandLineDetails {
+        const entry = param && param.params && this.servers.get(param.params.id);
+        if (!entry) {
+            return null;
+        }
+        const attributes = Object.assign({}, entry.attributes, param.params.attributes);
+        if (entry.handle.type.id === MINISHIFT_TYPE) {
+            const file: string = attributes['server.home.file'];
+            const cmdLine = [file, 'start'];
+            if (attributes['minishift.vmdriver']) {
+                cmdLine.push('--vm-driver', attributes['minishift.vmdriver']);
+            }
+            if (attributes['minishift.profile']) {
+                cmdLine.push('--profile', attributes['minishift.profile']);
+            }
+            return { cmdLine, workingDir: path.dirname(file), envp: [], properties: {} };
+        }
+
+        const home: string = attributes['server.home.dir'];
+        const vm: string = attributes['vm.install.path'] || process.env.JAVA_HOME;
+        const java = vm ? path.join(vm, 'bin', 'java') : 'java';
+        const vmArgs = param.mode === 'debug'
+            ? ['-agentlib:jdwp=transport=dt_socket,server=y,suspend=n,address=localhost:8787'] : [];
+        const cmdLine = [java, ...vmArgs,
+            '-Xms64m', '-Xmx512m', '-Djava.net.preferIPv4Stack=true',
+            `-Dorg.jboss.boot.log.file=${path.join(home, 'standalone', 'log', 'boot.log')}`,
+            `-Dlogging.configuration=file:${path.join(home, 'standalone', 'configuration', 'logging.properties')}`,
+            `-Djboss.home.dir=${home}`,
+            '-jar', path.join(home, 'jboss-modules.jar'),
+            '-mp', path.join(home, 'modules'),
+            'org.jboss.as.standalone', '-b', 'localhost', '--server-config=standalone.xml'];
+        return { cmdLine, workingDir: path.join(home, 'bin'), envp: [], properties: {} };
+    }
+
+    private setState(entry: MockServerEntry, state: number) {
+        entry.state = state;
+        this.broadcast('client/serverStateChanged', { server: entry.handle, state });
+    }
+
+    private later(entry: MockServerEntry, delay: number, action: () => void) {
+        const timer = setTimeout(() => {
+            entry.timers = entry.timers.filter(existing => existing !== timer);
+            action();
+        }, delay);
+        entry.timers.push(timer);
+    }
+
+    private cancel(entry: MockServerEntry) {
+        entry.timers.forEach(timer => clearTimeout(timer));
+        entry.timers = [];
+    }
+
+    private startingByClient(param: Protocol.ServerStartingAttributes): Protocol.Status {
+        if (!param || !param.request || !param.request.params) {
+            return error('Parameter is invalid.');
+        }
+        const entry = this.servers.get(param.request.params.id);
+        if (!entry) {
+            return error(`Server ${param.request.params.id} does not exist`);
+        }
+        entry.launchedByClient = true;
+        this.setState(entry, ServerState.STARTING);
+        if (param.initiatePolling) {
+            this.poll(entry);
+        }
+        return OK;
+    }
+
+    private poll(entry: MockServerEntry) {
+        this.later(entry, this.options.pollInterval, () => {
+            if (entry.state !== ServerState.STARTING) {
+                return;
+            }
+            const probe = net.connect(this.options.managementPort, 'localhost');
+            probe.on('connect', () => {
+                probe.destroy();
+                if (entry.state === ServerState.STARTING) {
+                    this.setState(entry, ServerState.STARTED);
+                }
+            });
+            probe.on('error', () => this.poll(entry));
+        });
+    }
+
+    private startedByClient(param: Protocol.LaunchParameters): Protocol.Status {
+        if (!param || !param.params) {
+            return error('Parameter is invalid.');
+        }
+        const entry = this.servers.get(param.params.id);
+        if (!entry) {
+            return error(`Server ${param.params.id} does not exist`);
+        }
+        entry.launchedByClient = true;
+        this.setState(entry, ServerState.STARTED);
+        return OK;
+    }
+
+    private startServer(param: Protocol.LaunchParameters): Protocol.StartServerResponse {
+        if (!param || !param.params) {
+            return { status: error('Invalid Parameter'), details: null };
+        }
+        const entry = this.servers.get(param.params.id);
+        if (!entry) {
+            return { status: error(`Server ${param.params.id} does not exist`), details: null };
+        }
+        if (entry.state !== ServerState.STOPPED) {
+            return { status: error(`Server ${param.params.id} is not stopped`), details: null };
+        }
+        const details = this.launchCommand(param);
+        entry.launchedByClient = false;
+        entry.processId = `${entry.handle.id}:${++entry.processCount}`;
+        this.setState(entry, ServerState.STARTING);
+        this.broadcast('client/serverProcessCreated', { server: entry.handle, processId: entry.processId });
+        this.output(entry, `Launching ${details.cmdLine.join(' ')}\n`);
+        this.output(entry, `WFLYSRV0049: ${entry.handle.type.visibleName} (mock) starting\n`);
+        this.later(entry, this.options.startupDelay, () => {
+            this.output(entry, `WFLYSRV0025: ${entry.handle.type.visibleName} (mock) started\n`);
+            this.setState(entry, ServerState.STARTED);
+        });
+        return { status: OK, details };
+    }
+
+    private output(entry: MockServerEntry, text: string) {
+        this.broadcast('client/serverProcessOutputAppended',
+            { server: entry.handle, processId: entry.processId, streamType: STREAM_TYPE_SYSOUT, text });
+    }
+
+    private stopServer(param: Protocol.StopServerAttributes): Protocol.Status {
+        if (!param || !param.id) {
+            return error('Parameter is invalid.');
+        }
+        const entry = this.servers.get(param.id);
+        if (!entry) {
+            return error(`Server ${param.id} does not exist`);
+        }
+        if (entry.state === ServerState.STOPPED) {
+            if (!param.force) {
+                return error(`Server ${param.id} is already stopped`);
+            }
+            this.setState(entry, ServerState.STOPPED);
+            return OK;
+        }
+        this.cancel(entry);
+        this.setState(entry, ServerState.STOPPING);
+        if (entry.launchedByClient && !param.force) {
+            this.shutdown(entry);
+            return OK;
+        }
+        this.later(entry, param.force ? 0 : this.options.shutdownDelay, () => {
+            if (entry.processId && !param.force) {
+                this.output(entry, `WFLYSRV0050: ${entry.handle.type.visibleName} (mock) stopped in ${this.options.shutdownDelay}ms\n`);
+            }
+            if (entry.processId) {
+                this.broadcast('client/serverProcessTerminated', { server: entry.handle, processId: entry.processId });
+                entry.processId = undefined;
+            }
+            entry.launchedByClient = false;
+            this.setState(entry, ServerState.STOPPED);
+        });
+        return OK;
+    }
+
+    /**
+     * Sends the shutdown operation to the management port of a server the client launched, which
+     * is reported STOPPED once the port is closed
+     */
+    private shutdown(entry: MockServerEntry) {
+        const body = JSON.stringify({ operation: 'shutdown' });
+        const request = http.request({ host: 'localhost', port: this.options.managementPort, method: 'POST', path: '/management',
+            headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) } });
+        request.on('response', (response: http.IncomingMessage) => response.resume());
+        request.on('error', () => undefined);
+        request.end(body);
+        this.pollStopped(entry);
+    }
+
+    private pollStopped(entry: MockServerEntry) {
+        this.later(entry, this.options.pollInterval, () => {
+            const probe = net.connect(this.options.managementPort, 'localhost');
+            probe.on('connect', () => {
+                probe.destroy();
+                this.pollStopped(entry);
+            });
+            probe.on('error', () => {
+                entry.launchedByClient = false;
+                this.setState(entry, ServerState.STOPPED);
+            });
+        });
+    }
+}
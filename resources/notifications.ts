@@ -0,0 +1,284 @@
+import * as chai from 'chai';
+import { RSPClient, Protocol } from 'rsp-client';
+import { EventEmitter } from 'events';
+
+const expect = chai.expect;
+
+/**
+ * Notifications the RSP sends to its clients, keyed by name with their payload types
+ */
+export interface NotificationMap {
+    discoveryPathAdded: Protocol.DiscoveryPath;
+    discoveryPathRemoved: Protocol.DiscoveryPath;
+    serverAdded: Protocol.ServerHandle;
+    serverRemoved: Protocol.ServerHandle;
+    serverAttributesChanged: Protocol.ServerHandle;
+    serverStateChange: Protocol.ServerStateChange;
+    serverProcessCreated: Protocol.ServerProcess;
+    serverProcessTerminated: Protocol.ServerProcess;
+    serverProcessOutputAppended: Protocol.ServerProcessOutput;
+}
+
+export type NotificationName = keyof NotificationMap;
+
+export interface RecordedNotification {
+    event: NotificationName;
+    params: any;
+    /** milliseconds since the epoch when the client received the notification */
+    time: number;
+}
+
+const stateNames = ['UNKNOWN', 'STARTING', 'STARTED', 'STOPPING', 'STOPPED'];
+const dispatchers = new WeakMap<RSPClient, EventEmitter>();
+
+/**
+ * Subscribes once to every notification of a client and re-emits them under the names of
+ * {@link NotificationMap}, so helpers can add and remove listeners without touching the client
+ */
+function dispatcher(client: RSPClient): EventEmitter {
+    let emitter = dispatchers.get(client);
+    if (!emitter) {
+        const target = new EventEmitter();
+        target.setMaxListeners(0);
+        const forward = (event: NotificationName) => (params: any) => target.emit(event, params);
+        client.onDiscoveryPathAdded(forward('discoveryPathAdded'));
+        client.onDiscoveryPathRemoved(forward('discoveryPathRemoved'));
+        client.onServerAdded(forward('serverAdded'));
+        client.onServerRemoved(forward('serverRemoved'));
+        client.onServerAttributeChange(forward('serverAttributesChanged'));
+        client.onServerStateChange(forward('serverStateChange'));
+        client.onServerProcessCreated(forward('serverProcessCreated'));
+        client.onServerProcessTerminated(forward('serverProcessTerminated'));
+        client.onServerOutputAppended(forward('serverProcessOutputAppended'));
+        dispatchers.set(client, target);
+        emitter = target;
+    }
+    return emitter;
+}
+
+/**
+ * Waits for the first notification matching a predicate. Call it before triggering the request
+ * that causes the notification, then await the result afterwards. A test failing before that await
+ * leaves the promise unawaited, its timeout is then not reported as an unhandled rejection.
+ *
+ * @param client client to listen on
+ * @param event notification to wait for
+ * @param predicate filter for the notification payload, accepts any payload by default
+ * @param timeout milliseconds before the returned promise is rejected
+ */
+export function waitForNotification<K extends NotificationName>(client: RSPClient, event: K,
+        predicate: (params: NotificationMap[K]) => boolean = () => true, timeout = 5000): Promise<NotificationMap[K]> {
+    const emitter = dispatcher(client);
+    const notification = new Promise<NotificationMap[K]>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            emitter.removeListener(event, listener);
+            reject(new Error(`No matching ${event} notification received within ${timeout} ms`));
+        }, timeout);
+        const listener = (params: NotificationMap[K]) => {
+            if (predicate(params)) {
+                clearTimeout(timer);
+                emitter.removeListener(event, listener);
+                resolve(params);
+            }
+        };
+        emitter.on(event, listener);
+    });
+    notification.catch(() => undefined);
+    return notification;
+}
+
+/**
+ * Waits until the given server reports a state
+ */
+export function waitForState(client: RSPClient, handle: Protocol.ServerHandle, state: number, timeout = 5000) {
+    return waitForNotification(client, 'serverStateChange',
+        change => change.server.id === handle.id && change.state === state, timeout);
+}
+
+/**
+ * Ordered log of every notification a client received while recording
+ */
+export class NotificationRecording {
+    readonly notifications: RecordedNotification[] = [];
+    private emitter: EventEmitter;
+    private listeners = new Map<NotificationName, (params: any) => void>();
+
+    constructor(client: RSPClient) {
+        this.emitter = dispatcher(client);
+        const events: NotificationName[] = ['discoveryPathAdded', 'discoveryPathRemoved', 'serverAdded',
+            'serverRemoved', 'serverAttributesChanged', 'serverStateChange', 'serverProcessCreated',
+            'serverProcessTerminated', 'serverProcessOutputAppended'];
+        events.forEach(event => {
+            const listener = (params: any) => this.notifications.push({ event, params, time: Date.now() });
+            this.listeners.set(event, listener);
+            this.emitter.on(event, listener);
+        });
+    }
+
+    /**
+     * Payloads of one kind of notification, in the order they arrived
+     */
+    of<K extends NotificationName>(event: K): NotificationMap[K][] {
+        return this.notifications.filter(notification => notification.event === event)
+            .map(notification => notification.params);
+    }
+
+    /**
+     * States the given server went through, consecutive repeats of the same state collapsed
+     */
+    states(handle: Protocol.ServerHandle): number[] {
+        return this.of('serverStateChange')
+            .filter(change => change.server.id === handle.id)
+            .map(change => change.state)
+            .filter((state, index, states) => index === 0 || states[index - 1] !== state);
+    }
+
+    /**
+     * Stops recording, the notifications collected so far are kept
+     */
+    stop() {
+        this.listeners.forEach((listener, event) => this.emitter.removeListener(event, listener));
+        this.listeners.clear();
+    }
+}
+
+/**
+ * Starts recording all notifications received by a client
+ */
+export function recordNotifications(client: RSPClient): NotificationRecording {
+    return new NotificationRecording(client);
+}
+
+/**
+ * Asserts that a server went through exactly the given states, in order
+ *
+ * @param recording recording taken while the server changed state
+ * @param handle server to check
+ * @param expected states such as ServerState.STARTING, ServerState.STARTED
+ */
+export function expectStateSequence(recording: NotificationRecording, handle: Protocol.ServerHandle, expected: number[]) {
+    const actual = recording.states(handle);
+    const names = (states: number[]) => states.map(state => stateNames[state] || state).join(' -> ');
+    expect(actual, `state transitions of ${handle.id}: ${names(actual)}, expected ${names(expected)}`)
+        .deep.equals(expected);
+}
+
+/**
+ * Stream types of serverProcessOutputAppended
+ */
+export const StreamType = {
+    SYSERR: 1,
+    SYSOUT: 2,
+    OTHER: 3
+};
+
+export interface ProcessEvent {
+    event: 'serverProcessCreated' | 'serverProcessOutputAppended' | 'serverProcessTerminated';
+    server: Protocol.ServerHandle;
+    processId: string;
+    streamType?: number;
+    text?: string;
+}
+
+/**
+ * Ordered log of the process notifications of one server: creation, output and termination
+ */
+export class ProcessCapture {
+    readonly events: ProcessEvent[] = [];
+    private emitter: EventEmitter;
+    private listeners = new Map<NotificationName, (params: any) => void>();
+    private waiters: (() => void)[] = [];
+
+    constructor(client: RSPClient, readonly handle: Protocol.ServerHandle) {
+        this.emitter = dispatcher(client);
+        const events: ProcessEvent['event'][] = ['serverProcessCreated', 'serverProcessOutputAppended', 'serverProcessTerminated'];
+        events.forEach(event => {
+            const listener = (params: Protocol.ServerProcess & Protocol.ServerProcessOutput) => {
+                if (params.server.id !== handle.id) {
+                    return;
+                }
+                this.events.push(Object.assign({ event }, params));
+                this.waiters.forEach(waiter => waiter());
+            };
+            this.listeners.set(event, listener);
+            this.emitter.on(event, listener);
+        });
+    }
+
+    /**
+     * Ids of the processes created, in order
+     */
+    get processIds(): string[] {
+        return this.events.filter(event => event.event === 'serverProcessCreated').map(event => event.processId);
+    }
+
+    /**
+     * Stream types output arrived on, in order of their first chunk
+     */
+    get streamTypes(): number[] {
+        return this.events.filter(event => event.event === 'serverProcessOutputAppended')
+            .map(event => event.streamType)
+            .filter((type, index, types) => types.indexOf(type) === index);
+    }
+
+    /**
+     * Output of one stream, chunks joined in the order they arrived
+     */
+    output(streamType = StreamType.SYSOUT): string {
+        return this.events.filter(event => event.event === 'serverProcessOutputAppended' && event.streamType === streamType)
+            .map(event => event.text).join('');
+    }
+
+    /**
+     * Waits until an event matching the predicate was captured, including events captured before
+     */
+    waitFor(predicate: (event: ProcessEvent) => boolean, timeout: number, description: string): Promise<ProcessEvent> {
+        return new Promise((resolve, reject) => {
+            const check = () => {
+                const found = this.events.find(predicate);
+                if (found) {
+                    clearTimeout(timer);
+                    this.waiters = this.waiters.filter(waiter => waiter !== check);
+                    resolve(found);
+                }
+            };
+            const timer = setTimeout(() => {
+                this.waiters = this.waiters.filter(waiter => waiter !== check);
+                reject(new Error(`No ${description} from ${this.handle.id} within ${timeout} ms`));
+            }, timeout);
+            this.waiters.push(check);
+            check();
+        });
+    }
+
+    /**
+     * Waits until the output of a stream matches a pattern
+     */
+    async waitForOutput(pattern: RegExp, timeout = 5000, streamType = StreamType.SYSOUT): Promise<string> {
+        await this.waitFor(() => pattern.test(this.output(streamType)), timeout, `output matching ${pattern}`);
+        return this.output(streamType);
+    }
+
+    /**
+     * Waits for the termination of a process, the latest one created by default
+     */
+    waitForTermination(timeout = 5000, processId?: string): Promise<ProcessEvent> {
+        return this.waitFor(event => event.event === 'serverProcessTerminated'
+            && event.processId === (processId || this.processIds[this.processIds.length - 1]), timeout, 'serverProcessTerminated');
+    }
+
+    /**
+     * Stops capturing, the events collected so far are kept
+     */
+    stop() {
+        this.listeners.forEach((listener, event) => this.emitter.removeListener(event, listener));
+        this.listeners.clear();
+    }
+}
+
+/**
+ * Starts capturing the process notifications of a server
+ */
+export function captureProcess(client: RSPClient, handle: Protocol.ServerHandle): ProcessCapture {
+    return new ProcessCapture(client, handle);
+}
@@ -0,0 +1,222 @@
+import * as cp from 'child_process';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Keeps the RSP and WildFly processes of a run from outliving it. The harness registers the RSP it
+ * spawns, WildFly processes are picked up by scanning for descendants of the test run. WildFly
+ * processes whose RSP is gone are re-parented away from the run, they are picked up as orphans running
+ * one of the test installations instead. Everything tracked is killed on SIGINT,
+ * SIGTERM and exit, the latter covering uncaught errors that end the run.
+ *
+ * Runs killed before they could clean up leave their processes and temporary homes listed in a
+ * registry file, which is what rsp-itest clean removes.
+ */
+
+export type ProcessKind = 'rsp' | 'wildfly';
+
+export interface TrackedProcess {
+    pid: number;
+    kind: ProcessKind;
+    command: string;
+    /** full title of the test, or the hooks of the suite, during which the process was first seen */
+    owner: string;
+}
+
+interface ProcessInfo {
+    pid: number;
+    ppid: number;
+    command: string;
+}
+
+/**
+ * Temporary homes and processes that runs in this directory created and not yet cleaned up
+ */
+export interface RunRegistry {
+    homes: string[];
+    processes: { pid: number, command: string }[];
+}
+
+export const REGISTRY_FILE = path.resolve('.rsp-itest-registry.json');
+
+const wildflyPattern = /-Djboss\.home\.dir=/;
+
+export function readRegistry(file = REGISTRY_FILE): RunRegistry {
+    const registry = fs.existsSync(file) ? fs.readJsonSync(file, { throws: false }) : null;
+    return Object.assign({ homes: [], processes: [] }, registry);
+}
+
+/**
+ * Changes the registry file, which is removed once it lists nothing
+ */
+export function updateRegistry(change: (registry: RunRegistry) => void, file = REGISTRY_FILE) {
+    const registry = readRegistry(file);
+    change(registry);
+    if (registry.homes.length === 0 && registry.processes.length === 0) {
+        fs.removeSync(file);
+    } else {
+        fs.outputJsonSync(file, registry, { spaces: 2 });
+    }
+}
+
+/**
+ * Running processes of the machine, zombies left out. Empty on Windows, which has no ps.
+ */
+export function listProcesses(): ProcessInfo[] {
+    if (process.platform === 'win32') {
+        return [];
+    }
+    const output = cp.execFileSync('ps', ['-A', '-ww', '-o', 'pid=', '-o', 'ppid=', '-o', 'stat=', '-o', 'args='],
+        { encoding: 'utf8' });
+    return output.split('\n').map(line => line.trim().match(/^(\d+)\s+(\d+)\s+(\S+)\s+(.*)$/))
+        .filter(match => match && !match[3].startsWith('Z'))
+        .map(match => ({ pid: +match[1], ppid: +match[2], command: match[4] }));
+}
+
+/**
+ * Whether a command line runs WildFly from ./wildfly or a temporary directory, where the tests keep their installations
+ */
+export function isTestWildfly(command: string, cwd = process.cwd(), tmp = os.tmpdir()): boolean {
+    return [path.resolve(cwd, 'wildfly'), tmp].some(root => command.indexOf(`-Djboss.home.dir=${root}`) >= 0);
+}
+
+/**
+ * Processes whose parent is gone, they are re-parented to init
+ */
+function orphans(processes: ProcessInfo[]): ProcessInfo[] {
+    const pids = new Set(processes.map(info => info.pid));
+    return processes.filter(info => info.ppid === 1 || !pids.has(info.ppid));
+}
+
+function descendants(processes: ProcessInfo[], root: number): ProcessInfo[] {
+    const found: ProcessInfo[] = [];
+    let parents = new Set([root]);
+    while (parents.size > 0) {
+        const children = processes.filter(info => parents.has(info.ppid));
+        found.push(...children);
+        parents = new Set(children.map(info => info.pid));
+    }
+    return found;
+}
+
+function shorten(command: string): string {
+    return command.length > 200 ? `${command.slice(0, 200)}...` : command;
+}
+
+export class ProcessGuard {
+    private tracked = new Map<number, TrackedProcess>();
+    private installed = false;
+
+    /**
+     * @param registryFile where tracked processes are listed until they are killed on exit, none by default
+     */
+    constructor(readonly registryFile?: string) {}
+
+    /**
+     * Registers a process spawned by the tests
+     */
+    track(pid: number, kind: ProcessKind, command: string, owner = 'test run') {
+        if (pid && !this.tracked.has(pid)) {
+            this.tracked.set(pid, { pid, kind, command, owner });
+            if (this.registryFile) {
+                updateRegistry(registry => registry.processes.push({ pid, command }), this.registryFile);
+            }
+        }
+    }
+
+    /**
+     * Starts tracking WildFly processes that were not seen before: those descended from this process
+     * and orphans running a test installation
+     *
+     * @param owner test or suite hooks the new processes are attributed to
+     * @returns the newly found processes
+     */
+    scan(owner: string): TrackedProcess[] {
+        const processes = listProcesses();
+        const found = descendants(processes, process.pid).filter(info => wildflyPattern.test(info.command))
+            .concat(orphans(processes).filter(info => isTestWildfly(info.command)))
+            .filter(info => !this.tracked.has(info.pid));
+        found.forEach(info => this.track(info.pid, 'wildfly', info.command, owner));
+        return found.map(info => this.tracked.get(info.pid));
+    }
+
+    /**
+     * Tracked processes still running
+     */
+    alive(kind?: ProcessKind): TrackedProcess[] {
+        const running = new Set(listProcesses().map(info => info.pid));
+        return Array.from(this.tracked.values())
+            .filter(tracked => running.has(tracked.pid) && (!kind || tracked.kind === kind));
+    }
+
+    /**
+     * Fails when a WildFly started by the tests is still running once a suite ended, killing it so the
+     * following suites start clean
+     *
+     * @param suite title of the suite, processes not seen before are attributed to its hooks
+     * @param timeout milliseconds the processes get to exit
+     */
+    async checkNoWildfly(suite: string, timeout = 10000): Promise<void> {
+        this.scan(`hooks of "${suite}"`);
+        const deadline = Date.now() + timeout;
+        let leaked = this.alive('wildfly');
+        while (leaked.length > 0 && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, 250));
+            leaked = this.alive('wildfly');
+        }
+        if (leaked.length === 0) {
+            return;
+        }
+        leaked.forEach(tracked => this.kill(tracked.pid));
+        throw new Error(`WildFly still running ${timeout} ms after suite "${suite}" ended:\n`
+            + leaked.map(tracked => `  pid ${tracked.pid} started in "${tracked.owner}": ${shorten(tracked.command)}`).join('\n'));
+    }
+
+    /**
+     * Kills every tracked process that is still running
+     */
+    killAll(): TrackedProcess[] {
+        const leaked = this.alive();
+        leaked.forEach(tracked => this.kill(tracked.pid));
+        return leaked;
+    }
+
+    /**
+     * Kills the tracked processes when the run is interrupted or exits
+     */
+    install() {
+        if (this.installed) {
+            return;
+        }
+        this.installed = true;
+        const cleanUp = () => {
+            this.killAll().forEach(tracked =>
+                console.log(`Killed ${tracked.kind === 'rsp' ? 'RSP server' : 'WildFly'} process ${tracked.pid} started in "${tracked.owner}"`));
+            if (this.registryFile) {
+                updateRegistry(registry => registry.processes = registry.processes.filter(info => !this.tracked.has(info.pid)),
+                    this.registryFile);
+            }
+        };
+        // mocha aborts the run on SIGINT itself, its after hooks may never get to run though
+        process.on('SIGINT', cleanUp);
+        process.on('SIGTERM', () => {
+            cleanUp();
+            process.exit(143);
+        });
+        process.on('exit', cleanUp);
+    }
+
+    private kill(pid: number) {
+        try {
+            process.kill(pid, 'SIGKILL');
+        } catch (err) {
+            // already gone
+        }
+    }
+}
+
+/**
+ * Guard shared by the harness and the fixture
+ */
+export const processGuard = new ProcessGuard(REGISTRY_FILE);
@@ -0,0 +1,177 @@
+import * as net from 'net';
+
+/**
+ * JSON-RPC message as it travels on the wire, without any of the shaping RSPClient applies
+ */
+export interface RawMessage {
+    jsonrpc?: string;
+    id?: number | string | null;
+    method?: string;
+    params?: any;
+    result?: any;
+    error?: { code: number, message: string, data?: any };
+}
+
+interface Waiter {
+    predicate: (message: RawMessage) => boolean;
+    resolve: (message: RawMessage) => void;
+}
+
+const HEADER_END = '\r\n\r\n';
+
+/**
+ * Socket level JSON-RPC client that writes arbitrary bytes to the server, for tests that need
+ * to send what a well-behaved client never would. Incoming frames are parsed and kept in
+ * {@link RawRpcClient.received}.
+ */
+export class RawRpcClient {
+    readonly received: RawMessage[] = [];
+    private buffer = Buffer.alloc(0);
+    private waiters: Waiter[] = [];
+    private nextId = 1;
+    private ended = false;
+
+    private constructor(private socket: net.Socket) {
+        socket.setNoDelay(true);
+        socket.on('data', (data: Buffer) => this.onData(data));
+        socket.on('close', () => this.ended = true);
+        socket.on('error', () => this.ended = true);
+    }
+
+    /**
+     * Opens a connection to the server
+     */
+    static connect(port: number, host = 'localhost'): Promise<RawRpcClient> {
+        return new Promise((resolve, reject) => {
+            const socket = net.connect(port, host);
+            socket.once('error', reject);
+            socket.once('connect', () => {
+                socket.removeListener('error', reject);
+                resolve(new RawRpcClient(socket));
+            });
+        });
+    }
+
+    /**
+     * True once the server closed the connection or it failed
+     */
+    get closed(): boolean {
+        return this.ended;
+    }
+
+    /**
+     * Writes bytes to the socket as they are, no framing added
+     */
+    write(data: string | Buffer) {
+        this.socket.write(data);
+    }
+
+    /**
+     * Writes a frame with the given body
+     *
+     * @param body message text, sent as is
+     * @param headers header lines, Content-Length is computed from the body unless given here
+     */
+    sendFrame(body: string, headers?: { [name: string]: string }) {
+        const lines = headers || { 'Content-Length': String(Buffer.byteLength(body, 'utf8')) };
+        const header = Object.keys(lines).map(name => `${name}: ${lines[name]}`).join('\r\n');
+        this.write(Buffer.concat([Buffer.from(header + HEADER_END, 'ascii'), Buffer.from(body, 'utf8')]));
+    }
+
+    /**
+     * Sends a well-framed request with any params, including ones of the wrong type
+     *
+     * @returns id of the request
+     */
+    sendRequest(method: string, params?: any): number {
+        const id = this.nextId++;
+        const message: RawMessage = { jsonrpc: '2.0', id, method };
+        if (params !== undefined) {
+            message.params = params;
+        }
+        this.sendFrame(JSON.stringify(message));
+        return id;
+    }
+
+    /**
+     * Sends a request and waits for its response
+     */
+    request(method: string, params?: any, timeout = 5000): Promise<RawMessage> {
+        return this.waitForResponse(this.sendRequest(method, params), timeout);
+    }
+
+    /**
+     * Waits for the response to a request id, null for responses to messages without a usable id
+     */
+    waitForResponse(id: number | string | null, timeout = 5000): Promise<RawMessage> {
+        return this.waitFor(message => message.method === undefined && message.id === id, timeout,
+            `response to request ${id}`);
+    }
+
+    /**
+     * Waits for the first received message matching a predicate, including ones that arrived earlier
+     */
+    waitFor(predicate: (message: RawMessage) => boolean, timeout = 5000, description = 'matching message'): Promise<RawMessage> {
+        const existing = this.received.find(predicate);
+        if (existing) {
+            return Promise.resolve(existing);
+        }
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = {
+                predicate,
+                resolve: message => {
+                    clearTimeout(timer);
+                    resolve(message);
+                }
+            };
+            const timer = setTimeout(() => {
+                this.waiters = this.waiters.filter(existingWaiter => existingWaiter !== waiter);
+                reject(new Error(`No ${description} received within ${timeout} ms`));
+            }, timeout);
+            this.waiters.push(waiter);
+        });
+    }
+
+    /**
+     * Resolves true if a matching message arrives within the timeout, false otherwise
+     */
+    async receives(predicate: (message: RawMessage) => boolean, timeout: number): Promise<boolean> {
+        try {
+            await this.waitFor(predicate, timeout);
+            return true;
+        } catch (err) {
+            return false;
+        }
+    }
+
+    close() {
+        this.socket.destroy();
+    }
+
+    private onData(data: Buffer) {
+        this.buffer = Buffer.concat([this.buffer, data]);
+        while (true) {
+            const end = this.buffer.indexOf(HEADER_END);
+            if (end < 0) {
+                return;
+            }
+            const header = this.buffer.toString('ascii', 0, end);
+            const match = /Content-Length:\s*(\d+)/i.exec(header);
+            const start = end + HEADER_END.length;
+            const length = match ? Number(match[1]) : 0;
+            if (this.buffer.length < start + length) {
+                return;
+            }
+            const body = this.buffer.toString('utf8', start, start + length);
+            this.buffer = this.buffer.slice(start + length);
+            this.dispatch(JSON.parse(body));
+        }
+    }
+
+    private dispatch(message: RawMessage) {
+        this.received.push(message);
+        const waiters = this.waiters.filter(waiter => waiter.predicate(message));
+        this.waiters = this.waiters.filter(waiter => waiters.indexOf(waiter) < 0);
+        waiters.forEach(waiter => waiter.resolve(message));
+    }
+}
@@ -0,0 +1,40 @@
+import * as fs from 'fs-extra';
+import * as Mocha from 'mocha';
+import * as path from 'path';
+import { enableCapture, attachmentsOf } from './test-logs';
+import { ReportedTest, junitXml, htmlReport } from './test-report';
+
+/**
+ * Spec reporter that also writes junit.xml and report.html to RSP_REPORT_DIR, test-reports by
+ * default. It turns on log capture, so failed tests carry the RSP output, server logs and protocol
+ * traffic of their run. Load it with --reporter, ts-node has to be registered with node itself.
+ */
+
+class ReportReporter extends Mocha.reporters.Spec {
+    constructor(runner: Mocha.Runner, options?: any) {
+        super(runner, options);
+        enableCapture();
+        const outcomes: { test: Mocha.Runnable, state: ReportedTest['state'], err?: Error }[] = [];
+
+        runner.on('pass', (test: Mocha.Test) => outcomes.push({ test, state: 'passed' }));
+        runner.on('pending', (test: Mocha.Test) => outcomes.push({ test, state: 'pending' }));
+        runner.on('fail', (test: Mocha.Runnable, err: Error) => outcomes.push({ test, state: 'failed', err }));
+        runner.on('end', () => {
+            // attachments are added by afterEach hooks, after the failure was reported
+            const tests: ReportedTest[] = outcomes.map(outcome => ({
+                suites: outcome.test.parent.titlePath(),
+                title: outcome.test.title,
+                state: outcome.state,
+                duration: outcome.test.duration,
+                error: outcome.err ? { message: outcome.err.message, stack: outcome.err.stack || outcome.err.message } : undefined,
+                attachments: attachmentsOf(outcome.test)
+            }));
+            const dir = process.env.RSP_REPORT_DIR || 'test-reports';
+            fs.outputFileSync(path.join(dir, 'junit.xml'), junitXml(tests));
+            fs.outputFileSync(path.join(dir, 'report.html'), htmlReport(tests));
+            console.log(`Test reports written to ${dir}`);
+        });
+    }
+}
+
+export = ReportReporter;
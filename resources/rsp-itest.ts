@@ -0,0 +1,280 @@
+import * as cp from 'child_process';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as server from './server-util';
+import { RunRegistry, isTestWildfly, listProcesses, readRegistry, updateRegistry } from './process-guard';
+import { Runtime, runtimeLabel, currentRuntime, rspVersion } from './runtime';
+
+/**
+ * Command line entry point for fetching artifacts, running a server by hand and running selected
+ * suites against chosen versions, so a single failing scenario can be reproduced with one command.
+ *
+ *     npm run rsp-itest -- <fetch|start|run|clean> [options]
+ */
+
+export interface CliArguments {
+    command: string;
+    /** option values by name, options given more than once keep every value */
+    options: { [name: string]: string[] };
+    positional: string[];
+}
+
+const usage = `Usage: rsp-itest <command> [options]
+
+Commands:
+  fetch   download the RSP distribution and the server runtime into ./server and ./wildfly
+  start   boot an RSP server and print its port, stopped with Ctrl-C
+  run     run test suites
+  clean   kill the RSP and WildFly processes and remove the temporary homes that interrupted runs left
+
+Options:
+  --rsp-version <version>   RSP distribution version, RSP_VERSION or ${rspVersion()} by default
+  --runtime <runtime>       server runtime as a label from matrix.json such as wildfly-12.0.0.Final,
+                            as JSON or as a JSON file, RSP_RUNTIME or ${runtimeLabel(currentRuntime())} by default
+  --mock                    use the in-process mock server (start, run)
+  --suite <suite>           test file or suite name such as serverModel, repeatable, all suites by default (run)
+  --grep <pattern>          only run tests matching the pattern (run)
+  --reuse-port <port>       run against an RSP server already listening on the port (run)
+  --reporter <reporter>     mocha reporter, such as resources/report-reporter.ts (run)
+  --all                     also kill every RSP and WildFly process that looks like a test server,
+                            remove all temporary homes, the data in RSP_USER_HOME and ./wildfly (clean)
+`;
+
+const booleanOptions = ['mock', 'help', 'all'];
+const mocha = require.resolve('mocha/bin/_mocha');
+const tsNode = require.resolve('ts-node/register');
+const dataFolder = '.org.jboss.tools.rsp.data';
+
+/**
+ * Splits the arguments into the command, --name value or --name=value options and the rest
+ */
+export function parseArguments(argv: string[]): CliArguments {
+    const parsed: CliArguments = { command: undefined, options: {}, positional: [] };
+    for (let index = 0; index < argv.length; index++) {
+        const arg = argv[index];
+        const option = arg.match(/^--([^=]+)(?:=(.*))?$/);
+        if (!option) {
+            if (parsed.command === undefined) {
+                parsed.command = arg;
+            } else {
+                parsed.positional.push(arg);
+            }
+            continue;
+        }
+        const name = option[1];
+        let value = option[2];
+        if (value === undefined) {
+            if (booleanOptions.indexOf(name) >= 0) {
+                value = 'true';
+            } else if (index + 1 < argv.length) {
+                value = argv[++index];
+            } else {
+                throw new Error(`Option --${name} needs a value`);
+            }
+        }
+        parsed.options[name] = (parsed.options[name] || []).concat(value);
+    }
+    return parsed;
+}
+
+function option(args: CliArguments, name: string): string {
+    const values = args.options[name];
+    return values ? values[values.length - 1] : undefined;
+}
+
+/**
+ * Resolves a runtime given as JSON, as a JSON file or as the label of a runtime in matrix.json
+ */
+export function resolveRuntime(value: string, matrixFile = 'matrix.json'): Runtime {
+    if (value.trim().startsWith('{')) {
+        return JSON.parse(value);
+    }
+    if (fs.existsSync(value) && fs.statSync(value).isFile()) {
+        return fs.readJsonSync(value);
+    }
+    const known: Runtime[] = fs.existsSync(matrixFile) ? fs.readJsonSync(matrixFile).runtimes : [];
+    const runtime = known.find(candidate => runtimeLabel(candidate) === value);
+    if (!runtime) {
+        throw new Error(`Unknown runtime ${value}, expected JSON, a JSON file or one of: `
+            + known.map(runtimeLabel).join(', '));
+    }
+    return runtime;
+}
+
+/**
+ * Resolves a suite given as a test file or by the name of its file, such as serverModel for
+ * test/serverModel-test.ts
+ */
+export function resolveSuite(value: string): string {
+    const candidates = [value, path.join('test', `${value}-test.ts`), path.join('benchmark', `${value}-bench.ts`)];
+    const file = candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+    if (file) {
+        return file;
+    }
+    if (value.indexOf('*') >= 0) {
+        return value;
+    }
+    const known = fs.readdirSync('test').filter(name => name.endsWith('-test.ts')).map(name => name.replace(/-test\.ts$/, ''));
+    throw new Error(`Unknown suite ${value}, expected a test file or one of: ${known.join(', ')}`);
+}
+
+/**
+ * Passes the version options on through the environment variables the harness and the suites read
+ */
+function applyVersions(args: CliArguments) {
+    const version = option(args, 'rsp-version');
+    if (version) {
+        process.env.RSP_VERSION = version;
+    }
+    const runtime = option(args, 'runtime');
+    if (runtime) {
+        process.env.RSP_RUNTIME = JSON.stringify(resolveRuntime(runtime));
+    }
+    if (option(args, 'mock')) {
+        process.env.RSP_MOCK = 'true';
+    }
+}
+
+async function fetch(args: CliArguments): Promise<number> {
+    applyVersions(args);
+    if (process.env.RSP_MOCK) {
+        console.log('Using mock RSP server, skipping download');
+    } else {
+        await server.download();
+    }
+    await server.getWildfly();
+    return 0;
+}
+
+async function start(args: CliArguments): Promise<number> {
+    applyVersions(args);
+    await server.getWildfly();
+    const harness = new server.RspServerHarness();
+    await harness.download();
+    const port = await harness.start();
+    console.log(`RSP server listening on port ${port}, user home ${harness.options.userHome}`);
+    console.log(`Run suites against it with: npm run rsp-itest -- run --reuse-port ${port}`);
+    console.log('Press Ctrl-C to stop it');
+    await new Promise(resolve => process.once('SIGINT', resolve));
+    await harness.stop();
+    harness.removeHome();
+    return 0;
+}
+
+/**
+ * Mocha command line for the run command, node arguments included
+ */
+export function mochaArguments(args: CliArguments): string[] {
+    const suites = (args.options.suite || []).map(resolveSuite);
+    const grep = option(args, 'grep');
+    const reporter = option(args, 'reporter');
+    // ts-node is registered with node itself, mocha would only register it after loading the reporter
+    return ['-r', tsNode, mocha, '--file', 'resources/fixture.ts',
+        ...(grep ? ['--grep', grep] : []),
+        ...(reporter ? ['--reporter', reporter] : []),
+        ...(suites.length > 0 ? suites : ['test/**/*test.ts'])];
+}
+
+function run(args: CliArguments): Promise<number> {
+    applyVersions(args);
+    const port = option(args, 'reuse-port');
+    const env = Object.assign({}, process.env, port ? { RSP_PORT: port } : {});
+    const mochaArgs = mochaArguments(args);
+    console.log(`mocha ${mochaArgs.slice(3).join(' ')}`);
+    return new Promise(resolve => {
+        const child = cp.spawn(process.execPath, mochaArgs, { env, stdio: 'inherit' });
+        // mocha gets the interrupt itself and stops after the current test
+        const ignore = () => undefined;
+        process.on('SIGINT', ignore);
+        child.on('exit', (code, signal) => {
+            process.removeListener('SIGINT', ignore);
+            resolve(signal ? 1 : code);
+        });
+    });
+}
+
+/**
+ * Processes of the registry that still run, the command telling them apart from later processes
+ * that got the same pid
+ */
+export function recordedProcesses(processes: { pid: number, command: string }[], registry: RunRegistry) {
+    return processes.filter(info => registry.processes.some(recorded => recorded.pid === info.pid && recorded.command === info.command));
+}
+
+/**
+ * RSP servers run by harnesses against a temporary home or RSP_USER_HOME, WildFly processes
+ * of ./wildfly or of installations generated in the temporary directory, whichever run started them
+ */
+export function strayProcesses(processes: { pid: number, command: string }[], cwd = process.cwd(), tmp = os.tmpdir()) {
+    const homes = [path.join(tmp, 'rsp-home-'), process.env.RSP_USER_HOME].filter(home => home);
+    return processes.filter(info => info.pid !== process.pid && (
+        (/felix\.jar/.test(info.command) && homes.some(home => info.command.indexOf(`-Duser.home=${home}`) >= 0))
+        || isTestWildfly(info.command, cwd, tmp)));
+}
+
+function clean(args: CliArguments): Promise<number> {
+    const all = !!option(args, 'all');
+    const registry = readRegistry();
+    const processes = listProcesses();
+    const killed = all ? strayProcesses(processes).concat(recordedProcesses(processes, registry)) : recordedProcesses(processes, registry);
+    Array.from(new Set(killed)).forEach(info => {
+        console.log(`Killing ${info.pid}: ${info.command.slice(0, 200)}`);
+        try {
+            process.kill(info.pid, 'SIGKILL');
+        } catch (err) {
+            console.log(`  ${err.message}`);
+        }
+    });
+
+    const temporaryHomes = !all ? registry.homes : registry.homes.concat(fs.readdirSync(os.tmpdir())
+        .filter(name => name.startsWith('rsp-home-')).map(name => path.join(os.tmpdir(), name)));
+    Array.from(new Set(temporaryHomes)).filter(home => fs.existsSync(home)).forEach(home => {
+        console.log(`Removing ${home}`);
+        fs.removeSync(home);
+    });
+    updateRegistry(cleaned => {
+        cleaned.homes = [];
+        cleaned.processes = [];
+    });
+    if (!all) {
+        return Promise.resolve(0);
+    }
+
+    if (process.env.RSP_USER_HOME) {
+        console.log(`Removing ${path.join(process.env.RSP_USER_HOME, dataFolder)}`);
+        server.clearData(process.env.RSP_USER_HOME);
+    }
+    ['data', 'tmp'].map(dir => path.join('wildfly', 'standalone', dir)).filter(dir => fs.existsSync(dir)).forEach(dir => {
+        console.log(`Removing ${dir}`);
+        fs.removeSync(dir);
+    });
+    return Promise.resolve(0);
+}
+
+const commands: { [name: string]: (args: CliArguments) => Promise<number> } = { fetch, start, run, clean };
+
+export async function main(argv: string[]): Promise<number> {
+    const args = parseArguments(argv);
+    if (option(args, 'help') || !args.command) {
+        console.log(usage);
+        return args.command || option(args, 'help') ? 0 : 1;
+    }
+    const command = commands[args.command];
+    if (!command) {
+        console.error(`Unknown command ${args.command}\n\n${usage}`);
+        return 1;
+    }
+    return command(args);
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2))
+    .then(code => {
+        process.exitCode = code;
+    })
+    .catch(err => {
+        console.error(err.message || err);
+        process.exitCode = 1;
+    });
+}
@@ -0,0 +1,69 @@
+import { Protocol } from 'rsp-client';
+
+/**
+ * The RSP distribution version and the server runtime a run tests against. Both default to the
+ * combination the suites were written for and are overridden per matrix entry by the matrix
+ * runner through RSP_VERSION and RSP_RUNTIME, so suites derive their expectations from here.
+ */
+
+export interface Runtime {
+    /** archive base name, such as wildfly or jboss-eap */
+    name: string;
+    /** version as reported in the bean's fullVersion, such as 13.0.0.Final */
+    version: string;
+    typeCategory: string;
+    specificType?: string;
+    serverAdapterTypeId: string;
+    /** visible name of the adapter's server type, such as WildFly 13.x */
+    visibleName: string;
+    /** server type description, derived from the visible name when not given */
+    description?: string;
+    /** archive file name, <name>-<version>.zip by default */
+    archive?: string;
+    /** download url, only needed when the archive is not in the mirror or cache */
+    url?: string;
+}
+
+export const DEFAULT_RSP_VERSION = '0.0.9-SNAPSHOT';
+
+export const DEFAULT_RUNTIME: Runtime = {
+    name: 'wildfly',
+    version: '13.0.0.Final',
+    typeCategory: 'WildFly',
+    serverAdapterTypeId: 'org.jboss.ide.eclipse.as.wildfly.130',
+    visibleName: 'WildFly 13.x',
+    url: 'http://download.jboss.org/wildfly/13.0.0.Final/wildfly-13.0.0.Final.zip'
+};
+
+/**
+ * RSP distribution version under test
+ */
+export function rspVersion(): string {
+    return process.env.RSP_VERSION || DEFAULT_RSP_VERSION;
+}
+
+/**
+ * Server runtime under test, read from the JSON in RSP_RUNTIME with missing fields filled in
+ */
+export function currentRuntime(): Runtime {
+    const runtime: Runtime = process.env.RSP_RUNTIME ? JSON.parse(process.env.RSP_RUNTIME) : DEFAULT_RUNTIME;
+    return Object.assign({
+        specificType: runtime.typeCategory,
+        description: `A server adapter capable of discovering and controlling a ${runtime.visibleName} runtime instance.`,
+        archive: `${runtime.name}-${runtime.version}.zip`
+    }, runtime);
+}
+
+/**
+ * Server type the RSP assigns to the runtime under test
+ */
+export function runtimeServerType(runtime = currentRuntime()): Protocol.ServerType {
+    return { id: runtime.serverAdapterTypeId, visibleName: runtime.visibleName, description: runtime.description };
+}
+
+/**
+ * Short label of a runtime, such as wildfly-13.0.0.Final
+ */
+export function runtimeLabel(runtime: Runtime): string {
+    return `${runtime.name}-${runtime.version}`;
+}
@@ -0,0 +1,321 @@
+import decompress = require('decompress');
+import * as os from 'os';
+import * as path from 'path';
+import * as cp from 'child_process';
+import * as fs from 'fs-extra';
+import { fetchArtifact, Artifact } from './artifact-cache';
+import { MockRspServer } from './mock-server';
+import { processGuard, updateRegistry } from './process-guard';
+import { Runtime, currentRuntime, rspVersion, runtimeLabel, DEFAULT_RSP_VERSION, DEFAULT_RUNTIME } from './runtime';
+
+const findJava = require('find-java-home');
+
+const baseUrl = 'http://download.jboss.org/jbosstools/adapters/snapshots/';
+const fileName = 'org.jboss.tools.rsp.distribution';
+const serverRoot = './server';
+const wildflyRoot = './wildfly';
+const dataFolder = '.org.jboss.tools.rsp.data';
+// records which artifact a directory was extracted from
+const stampFile = '.extracted-from';
+const portRegex = /.+port\s(\d+)/;
+
+export interface HarnessOptions {
+    /** directory holding the extracted RSP distribution, defaults to ./server */
+    serverRoot?: string;
+    /** java installation used to run the RSP, looked up with find-java-home when not set */
+    javaHome?: string;
+    /**
+     * user.home of the RSP process, the server keeps its data in .org.jboss.tools.rsp.data beneath it.
+     * Defaults to RSP_USER_HOME or else a temporary directory private to the harness.
+     */
+    userHome?: string;
+    /** milliseconds to wait for the server to announce its port */
+    startTimeout?: number;
+    /** milliseconds to wait for the process to exit before it is killed */
+    stopTimeout?: number;
+    /** run the in-process mock server instead of the distribution, defaults to RSP_MOCK being set */
+    mock?: boolean;
+}
+
+/**
+ * Text the server process printed, as it arrived
+ */
+export interface LogChunk {
+    /** milliseconds since the epoch */
+    time: number;
+    stream: 'stdout' | 'stderr';
+    text: string;
+}
+
+/**
+ * Owns a single RSP server instance, either a java process running the distribution
+ * or an in-process {@link MockRspServer}
+ */
+export class RspServerHarness {
+    readonly options: HarnessOptions;
+    private process: cp.ChildProcess;
+    private mockServer: MockRspServer;
+    private output = '';
+    private log: LogChunk[] = [];
+    private exited: Promise<void>;
+    private currentPort: number;
+    private temporaryHome: boolean;
+
+    constructor(options: HarnessOptions = {}) {
+        this.options = Object.assign({
+            serverRoot,
+            startTimeout: 60000,
+            stopTimeout: 10000,
+            mock: !!process.env.RSP_MOCK
+        }, options);
+        if (!this.options.userHome) {
+            this.options.userHome = process.env.RSP_USER_HOME;
+        }
+        if (!this.options.userHome) {
+            this.options.userHome = fs.mkdtempSync(path.join(os.tmpdir(), 'rsp-home-'));
+            this.temporaryHome = true;
+            updateRegistry(registry => registry.homes.push(this.options.userHome));
+        }
+    }
+
+    /**
+     * Directory the server stores its persistent model in
+     */
+    get dataDir(): string {
+        return path.join(this.options.userHome, dataFolder);
+    }
+
+    /**
+     * Port the running server listens on, undefined while stopped
+     */
+    get port(): number {
+        return this.currentPort;
+    }
+
+    /**
+     * Everything the server process printed to stdout and stderr since the last start
+     */
+    getOutput(): string {
+        return this.output;
+    }
+
+    /**
+     * Output of the server process since the given time, across restarts, by stream
+     */
+    getLog(since = 0): LogChunk[] {
+        return this.log.filter(chunk => chunk.time >= since);
+    }
+
+    /**
+     * Extracts the RSP distribution into the server root unless it is already there, or does nothing
+     * when the harness runs the mock server
+     *
+     * @param version distribution version, RSP_VERSION or else 0.0.9-SNAPSHOT by default
+     */
+    download(version = rspVersion()): Promise<void> {
+        if (this.options.mock) {
+            console.log('Using mock RSP server, skipping download');
+            return Promise.resolve();
+        }
+        return download(version, this.options.serverRoot);
+    }
+
+    /**
+     * Starts the server
+     *
+     * @returns promise of the port the server listens on, rejected with the collected output
+     *  if the process exits or does not announce its port within the start timeout
+     */
+    async start(): Promise<number> {
+        if (this.process || this.mockServer) {
+            throw new Error(`RSP server is already running on port ${this.currentPort}`);
+        }
+        this.output = '';
+        if (this.options.mock) {
+            this.mockServer = new MockRspServer({ dataDir: this.dataDir });
+            this.currentPort = await this.mockServer.start();
+            return this.currentPort;
+        }
+
+        const javaHome = this.options.javaHome || await this.findJavaHome();
+        const javaPath = path.join(javaHome, 'bin', 'java');
+        console.log('Starting RSP server');
+        this.currentPort = await this.spawn(javaPath);
+        return this.currentPort;
+    }
+
+    /**
+     * Stops the server, resolving once the process has actually exited. The process is
+     * killed forcibly when it does not terminate within the stop timeout.
+     */
+    async stop(): Promise<void> {
+        console.log('Stopping RSP server');
+        this.currentPort = undefined;
+        if (this.mockServer) {
+            const mock = this.mockServer;
+            this.mockServer = null;
+            return mock.stop();
+        }
+        if (!this.process) {
+            return;
+        }
+        const serverProcess = this.process;
+        const timer = setTimeout(() => serverProcess.kill('SIGKILL'), this.options.stopTimeout);
+        serverProcess.kill();
+        await this.exited;
+        clearTimeout(timer);
+    }
+
+    /**
+     * Stops the running server and starts it again with the same options
+     *
+     * @returns promise of the port the restarted server listens on
+     */
+    async restart(): Promise<number> {
+        await this.stop();
+        return this.start();
+    }
+
+    /**
+     * Deletes the server's persistent data, should only be called while it is stopped
+     */
+    clearData() {
+        clearData(this.options.userHome);
+    }
+
+    /**
+     * Deletes the temporary user home, if the harness created one, along with the server's data
+     */
+    removeHome() {
+        this.clearData();
+        if (this.temporaryHome) {
+            const home = this.options.userHome;
+            fs.removeSync(home);
+            updateRegistry(registry => registry.homes = registry.homes.filter(recorded => recorded !== home));
+        }
+    }
+
+    private append(stream: LogChunk['stream'], data: Buffer) {
+        this.output += data.toString();
+        this.log.push({ time: Date.now(), stream, text: data.toString() });
+    }
+
+    private findJavaHome(): Promise<string> {
+        return new Promise((resolve, reject) => {
+            findJava((err: Error, home: string) => err ? reject(err) : resolve(home));
+        });
+    }
+
+    private spawn(javaPath: string): Promise<number> {
+        return new Promise((resolve, reject) => {
+            const args = [`-Duser.home=${this.options.userHome}`, '-jar', path.join('bin', 'felix.jar')];
+            const env = Object.assign({}, process.env, { HOME: this.options.userHome });
+            const serverProcess = cp.spawn(javaPath, args, { cwd: this.options.serverRoot, env });
+            let stdout = '';
+            // the timeout, exit and error handlers may all fail the start, only the first counts
+            let settled = false;
+
+            const fail = (reason: string) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                clearTimeout(timer);
+                reject(new Error(`${reason}\n--- RSP server output ---\n${this.output}`));
+            };
+            const timer = setTimeout(() => {
+                fail(`RSP server did not announce its port within ${this.options.startTimeout} ms`);
+                serverProcess.kill('SIGKILL');
+            }, this.options.startTimeout);
+
+            this.process = serverProcess;
+            // a process that could not be launched has no pid, its error event fails the start
+            if (serverProcess.pid !== undefined) {
+                processGuard.track(serverProcess.pid, 'rsp', [javaPath, ...args].join(' '));
+            }
+            this.exited = new Promise<void>(resolveExit => {
+                serverProcess.on('exit', (code, signal) => {
+                    this.process = null;
+                    resolveExit();
+                    fail(`RSP server exited with ${signal ? `signal ${signal}` : `code ${code}`} before announcing its port`);
+                });
+                serverProcess.on('error', err => {
+                    this.process = null;
+                    resolveExit();
+                    fail(`Failed to launch RSP server with ${javaPath}: ${err.message}`);
+                });
+            });
+            serverProcess.stderr.on('data', (data: Buffer) => this.append('stderr', data));
+            serverProcess.stdout.on('data', (data: Buffer) => {
+                this.append('stdout', data);
+                stdout += data.toString();
+                const match = stdout.match(portRegex);
+                if (match && !settled) {
+                    settled = true;
+                    clearTimeout(timer);
+                    resolve(+match[1]);
+                }
+            });
+        });
+    }
+}
+
+/**
+ * Deletes the persistent data of RSP servers run with the given user home
+ */
+export function clearData(userHome: string) {
+    fs.removeSync(path.join(userHome, dataFolder));
+}
+
+/**
+ * Extracts an archive into root unless the same artifact is already there. Directories extracted
+ * before the stamp file existed are kept as long as the default artifact is requested.
+ */
+function extract(artifact: Artifact, root: string, marker: string, label: string, isDefault: boolean): Promise<void> {
+    const id = `${artifact.name}-${artifact.version}`;
+    const stamp = path.join(root, stampFile);
+    if (fs.existsSync(path.join(root, marker))) {
+        const extracted = fs.existsSync(stamp) ? fs.readFileSync(stamp, 'utf8').trim() : undefined;
+        if (extracted === id || (extracted === undefined && isDefault)) {
+            console.log(`${label} found, skipping download`);
+            return Promise.resolve();
+        }
+        console.log(`Replacing ${label} ${extracted || 'of unknown version'} with ${id}`);
+    }
+
+    console.log(`Fetching ${label} ${id}`);
+    return fetchArtifact(artifact)
+    .then(archive => {
+        fs.removeSync(root);
+        return decompress(archive, root, { strip: 1 });
+    })
+    .then(() => fs.writeFileSync(stamp, id));
+}
+
+/**
+ * Extracts the RSP distribution into root, ./server by default, unless it is already there
+ *
+ * @param version distribution version, RSP_VERSION or else 0.0.9-SNAPSHOT by default
+ */
+export function download(version = rspVersion(), root = serverRoot): Promise<void> {
+    const finalFile = `${fileName}-${version}.zip`;
+    return extract({
+        name: fileName,
+        version: version,
+        fileName: finalFile,
+        url: `${baseUrl}${finalFile}`
+    }, root, path.join('bin', 'felix.jar'), 'RSP server', version === DEFAULT_RSP_VERSION);
+}
+
+/**
+ * Extracts the server runtime under test, WildFly 13.0.0.Final unless RSP_RUNTIME says otherwise,
+ * into ./wildfly unless it is already there
+ */
+export function getWildfly(runtime: Runtime = currentRuntime()): Promise<void> {
+    return extract({
+        name: runtime.name,
+        version: runtime.version,
+        fileName: runtime.archive,
+        url: runtime.url
+    }, wildflyRoot, 'bin', 'Server runtime', runtimeLabel(runtime) === runtimeLabel(DEFAULT_RUNTIME));
+}
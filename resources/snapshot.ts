@@ -0,0 +1,166 @@
+import { RSPClient, Protocol } from 'rsp-client';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+/**
+ * Snapshots of the server type catalog: every server type with its attributes and launch modes, as
+ * JSON files kept under version control. A differing catalog fails with a structured diff of added
+ * and removed types and changed fields, a missing snapshot fails as well. Only setting
+ * RSP_UPDATE_SNAPSHOTS writes the files, so catalog changes are reviewed as changes to the snapshot.
+ */
+
+export interface TypeSnapshot {
+    visibleName: string;
+    description: string;
+    requiredAttributes: { [name: string]: Protocol.Attribute };
+    optionalAttributes: { [name: string]: Protocol.Attribute };
+    /** launch mode descriptions keyed by mode */
+    launchModes: { [mode: string]: string };
+}
+
+export interface CatalogSnapshot {
+    /** server types keyed by id */
+    serverTypes: { [id: string]: TypeSnapshot };
+}
+
+export interface Change {
+    /** keys leading to the changed value */
+    path: string[];
+    kind: 'added' | 'removed' | 'changed';
+    expected?: any;
+    actual?: any;
+}
+
+export interface CatalogDiff {
+    addedTypes: string[];
+    removedTypes: string[];
+    /** changes within types present in both catalogs, keyed by type id */
+    changedTypes: { [id: string]: Change[] };
+}
+
+function attributesOf(attributes: Protocol.Attributes): { [name: string]: Protocol.Attribute } {
+    return attributes && attributes.attributes ? attributes.attributes : null;
+}
+
+/**
+ * Reads the catalog the RSP reports
+ */
+export async function captureCatalog(client: RSPClient): Promise<CatalogSnapshot> {
+    const snapshot: CatalogSnapshot = { serverTypes: {} };
+    const serverTypes = (await client.getServerTypes()).slice().sort((a, b) => a.id.localeCompare(b.id));
+    for (const serverType of serverTypes) {
+        const modes = await client.getServerLaunchModes(serverType) || [];
+        const launchModes: { [mode: string]: string } = {};
+        modes.forEach(mode => launchModes[mode.mode] = mode.desc);
+        snapshot.serverTypes[serverType.id] = {
+            visibleName: serverType.visibleName,
+            description: serverType.description,
+            requiredAttributes: attributesOf(await client.getServerTypeRequiredAttributes(serverType)),
+            optionalAttributes: attributesOf(await client.getServerTypeOptionalAttributes(serverType)),
+            launchModes
+        };
+    }
+    return snapshot;
+}
+
+function isObject(value: any): boolean {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Differences between two JSON values, descending into objects
+ */
+export function diffValues(expected: any, actual: any, keys: string[] = []): Change[] {
+    if (isObject(expected) && isObject(actual)) {
+        const names = Object.keys(expected).concat(Object.keys(actual).filter(name => !(name in expected)));
+        return names.reduce((changes: Change[], name) => {
+            const childPath = [...keys, name];
+            if (!(name in actual)) {
+                return changes.concat({ path: childPath, kind: 'removed', expected: expected[name] });
+            }
+            if (!(name in expected)) {
+                return changes.concat({ path: childPath, kind: 'added', actual: actual[name] });
+            }
+            return changes.concat(diffValues(expected[name], actual[name], childPath));
+        }, []);
+    }
+    return JSON.stringify(expected) === JSON.stringify(actual) ? [] : [{ path: keys, kind: 'changed', expected, actual }];
+}
+
+export function diffCatalog(expected: CatalogSnapshot, actual: CatalogSnapshot): CatalogDiff {
+    const diff: CatalogDiff = { addedTypes: [], removedTypes: [], changedTypes: {} };
+    diffValues(expected.serverTypes, actual.serverTypes).forEach(change => {
+        const id = change.path[0];
+        if (change.path.length === 1 && change.kind === 'added') {
+            diff.addedTypes.push(id);
+        } else if (change.path.length === 1 && change.kind === 'removed') {
+            diff.removedTypes.push(id);
+        } else {
+            diff.changedTypes[id] = (diff.changedTypes[id] || []).concat(Object.assign({}, change, { path: change.path.slice(1) }));
+        }
+    });
+    return diff;
+}
+
+export function isEmptyDiff(diff: CatalogDiff): boolean {
+    return diff.addedTypes.length === 0 && diff.removedTypes.length === 0 && Object.keys(diff.changedTypes).length === 0;
+}
+
+function formatChange(change: Change): string {
+    const name = change.path.join(' / ');
+    switch (change.kind) {
+        case 'added': return `+ ${name}: ${JSON.stringify(change.actual)}`;
+        case 'removed': return `- ${name}: ${JSON.stringify(change.expected)}`;
+        default: return `~ ${name}: ${JSON.stringify(change.expected)} -> ${JSON.stringify(change.actual)}`;
+    }
+}
+
+export function formatCatalogDiff(diff: CatalogDiff, actual: CatalogSnapshot): string {
+    const lines: string[] = [];
+    if (diff.addedTypes.length > 0) {
+        lines.push('Added server types:', ...diff.addedTypes.map(id => `  + ${id} (${actual.serverTypes[id].visibleName})`));
+    }
+    if (diff.removedTypes.length > 0) {
+        lines.push('Removed server types:', ...diff.removedTypes.map(id => `  - ${id}`));
+    }
+    const changed = Object.keys(diff.changedTypes);
+    if (changed.length > 0) {
+        lines.push('Changed server types:');
+        changed.forEach(id => lines.push(`  ${id}`, ...diff.changedTypes[id].map(change => `    ${formatChange(change)}`)));
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Snapshot files below a directory, rewritten instead of compared when updating
+ */
+export class SnapshotStore {
+    constructor(readonly dir = path.resolve('snapshots'), readonly update = !!process.env.RSP_UPDATE_SNAPSHOTS) {}
+
+    fileFor(name: string): string {
+        return path.join(this.dir, `${name}.json`);
+    }
+
+    /**
+     * Compares a catalog with its snapshot
+     *
+     * @throws when the snapshot is missing or the catalog differs, and snapshots are not being updated
+     */
+    checkCatalog(name: string, actual: CatalogSnapshot) {
+        const file = this.fileFor(name);
+        if (this.update) {
+            fs.outputJsonSync(file, actual, { spaces: 2 });
+            console.log(`Snapshot written to ${path.relative(process.cwd(), file)}`);
+            return;
+        }
+        if (!fs.existsSync(file)) {
+            throw new Error(`No server type catalog snapshot at ${path.relative(process.cwd(), file)}, `
+                + 'record it with RSP_UPDATE_SNAPSHOTS=1 and commit it');
+        }
+        const diff = diffCatalog(fs.readJsonSync(file), actual);
+        if (!isEmptyDiff(diff)) {
+            throw new Error(`Server type catalog differs from ${path.relative(process.cwd(), file)}, `
+                + `review the changes and update the snapshot with RSP_UPDATE_SNAPSHOTS=1:\n${formatCatalogDiff(diff, actual)}`);
+        }
+    }
+}
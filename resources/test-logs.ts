@@ -0,0 +1,68 @@
+import * as fs from 'fs-extra';
+import * as Mocha from 'mocha';
+
+/**
+ * Logs kept per test for diagnosing failures: the fixture marks where every log stands when a test
+ * starts and, when it fails, attaches everything written since. Capturing is switched on by the
+ * report reporter, tests run without it keep no logs.
+ */
+
+export interface Attachment {
+    name: string;
+    content: string;
+}
+
+let enabled = false;
+const attachments = new WeakMap<Mocha.Runnable, Attachment[]>();
+
+export function enableCapture() {
+    enabled = true;
+}
+
+export function isCaptureEnabled(): boolean {
+    return enabled;
+}
+
+export function attach(test: Mocha.Runnable, ...added: Attachment[]) {
+    attachments.set(test, (attachments.get(test) || []).concat(added));
+}
+
+export function attachmentsOf(test: Mocha.Runnable): Attachment[] {
+    return attachments.get(test) || [];
+}
+
+/**
+ * Reads what was appended to a file since a mark, such as a server's server.log
+ */
+export class LogTail {
+    constructor(readonly name: string, readonly file: string) {}
+
+    /**
+     * Current length of the file, 0 while it does not exist
+     */
+    mark(): number {
+        return fs.existsSync(this.file) ? fs.statSync(this.file).size : 0;
+    }
+
+    /**
+     * Text appended since the mark, the whole file when it was truncated or rotated in between
+     */
+    since(mark: number): string {
+        if (!fs.existsSync(this.file)) {
+            return '';
+        }
+        const size = fs.statSync(this.file).size;
+        const start = size < mark ? 0 : mark;
+        if (size === start) {
+            return '';
+        }
+        const buffer = Buffer.alloc(size - start);
+        const fd = fs.openSync(this.file, 'r');
+        try {
+            fs.readSync(fd, buffer, 0, buffer.length, start);
+        } finally {
+            fs.closeSync(fd);
+        }
+        return buffer.toString('utf8');
+    }
+}
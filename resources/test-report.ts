@@ -0,0 +1,99 @@
+import { Attachment } from './test-logs';
+
+/**
+ * JUnit XML and standalone HTML renderings of a test run, failures carrying the logs captured
+ * while the failing test ran
+ */
+
+export interface ReportedTest {
+    /** titles of the enclosing suites, outermost first */
+    suites: string[];
+    title: string;
+    state: 'passed' | 'failed' | 'pending';
+    /** milliseconds */
+    duration: number;
+    error?: { message: string, stack: string };
+    attachments: Attachment[];
+}
+
+// characters XML 1.0 does not allow, such as the escape of ANSI colour codes in server logs
+const invalidXml = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g;
+
+function escapeXml(text: string): string {
+    return (text || '').replace(invalidXml, '').replace(/&/g, '&amp;').replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function seconds(milliseconds: number): string {
+    return ((milliseconds || 0) / 1000).toFixed(3);
+}
+
+function attachmentText(attachments: Attachment[]): string {
+    return attachments.map(attachment => `===== ${attachment.name} =====\n${attachment.content}`).join('\n');
+}
+
+/**
+ * One testsuite element per top level suite, attachments of a test go to its system-out
+ */
+export function junitXml(tests: ReportedTest[]): string {
+    const groups = new Map<string, ReportedTest[]>();
+    tests.forEach(test => {
+        const name = test.suites[0] || 'root';
+        groups.set(name, (groups.get(name) || []).concat(test));
+    });
+    const lines = ['<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites tests="${tests.length}" failures="${tests.filter(test => test.state === 'failed').length}">`];
+    groups.forEach((group, name) => {
+        const failures = group.filter(test => test.state === 'failed').length;
+        const skipped = group.filter(test => test.state === 'pending').length;
+        const time = group.reduce((sum, test) => sum + (test.duration || 0), 0);
+        lines.push(`  <testsuite name="${escapeXml(name)}" tests="${group.length}" failures="${failures}" `
+            + `skipped="${skipped}" time="${seconds(time)}">`);
+        group.forEach(test => {
+            lines.push(`    <testcase classname="${escapeXml(test.suites.join(' > '))}" name="${escapeXml(test.title)}" `
+                + `time="${seconds(test.duration)}">`);
+            if (test.state === 'failed') {
+                lines.push(`      <failure message="${escapeXml(test.error.message)}">${escapeXml(test.error.stack)}</failure>`);
+            } else if (test.state === 'pending') {
+                lines.push('      <skipped/>');
+            }
+            if (test.attachments.length > 0) {
+                lines.push(`      <system-out>${escapeXml(attachmentText(test.attachments))}</system-out>`);
+            }
+            lines.push('    </testcase>');
+        });
+        lines.push('  </testsuite>');
+    });
+    lines.push('</testsuites>', '');
+    return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+    return (text || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Standalone page listing failures with their error and collapsible attachments, followed by all tests
+ */
+export function htmlReport(tests: ReportedTest[], title = 'RSP integration tests'): string {
+    const count = (state: ReportedTest['state']) => tests.filter(test => test.state === state).length;
+    const name = (test: ReportedTest) => escapeHtml([...test.suites, test.title].join(' > '));
+    const failures = tests.filter(test => test.state === 'failed').map(test => [
+        `<section class="failure"><h3>${name(test)}</h3>`,
+        `<pre class="error">${escapeHtml(test.error.stack || test.error.message)}</pre>`,
+        ...test.attachments.map(attachment => `<details><summary>${escapeHtml(attachment.name)}</summary>`
+            + `<pre>${escapeHtml(attachment.content)}</pre></details>`),
+        '</section>'].join('\n'));
+    const rows = tests.map(test => `<tr class="${test.state}"><td>${name(test)}</td><td>${test.state}</td>`
+        + `<td>${test.duration === undefined ? '' : test.duration}</td></tr>`);
+    return ['<!DOCTYPE html>', `<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>`,
+        '<style>body{font-family:sans-serif}pre{background:#f6f8fa;padding:8px;overflow:auto;max-height:40em}'
+        + '.error{background:#f8d7da}table{border-collapse:collapse}td,th{border:1px solid #ccc;padding:4px 8px;text-align:left}'
+        + 'tr.passed td:nth-child(2){color:#155724}tr.failed td:nth-child(2){color:#721c24}tr.pending td:nth-child(2){color:#856404}'
+        + '</style></head><body>',
+        `<h1>${escapeHtml(title)}</h1>`,
+        `<p>${count('passed')} passed, ${count('failed')} failed, ${count('pending')} pending</p>`,
+        ...(failures.length > 0 ? ['<h2>Failures</h2>', ...failures] : []),
+        '<h2>Tests</h2>', '<table><tr><th>test</th><th>state</th><th>ms</th></tr>', ...rows, '</table>',
+        '</body></html>', ''].join('\n');
+}
@@ -0,0 +1,407 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { FaultProxy, ForwardedFrame } from './fault-proxy';
+
+/**
+ * Protocol transcripts: every request, response and notification exchanged during a test, recorded
+ * by a pass-through proxy in front of the server. In record mode they are written as golden files,
+ * in compare mode the new transcript is diffed against the golden one after normalizing values
+ * that change from run to run.
+ */
+
+export interface TranscriptMessage {
+    /** connection the message travelled on, numbered in order of appearance within the test */
+    connection: number;
+    from: 'client' | 'server';
+    type: 'request' | 'response' | 'notification';
+    id?: number;
+    /** method of the message, or of the request a response answers */
+    method?: string;
+    params?: any;
+    result?: any;
+    error?: any;
+}
+
+export interface Transcript {
+    test: string;
+    messages: TranscriptMessage[];
+}
+
+export type TranscriptMode = 'record' | 'compare';
+
+/**
+ * Pass-through proxy that keeps the traffic of each test
+ */
+export class TrafficRecorder {
+    private proxy: FaultProxy;
+
+    constructor(readonly targetPort: number) {
+        this.proxy = new FaultProxy(targetPort);
+    }
+
+    /**
+     * Starts accepting clients
+     *
+     * @param port port to listen on, a random free port by default
+     */
+    start(port = 0): Promise<number> {
+        return this.proxy.start(port);
+    }
+
+    get port(): number {
+        return this.proxy.port;
+    }
+
+    /**
+     * Discards the traffic seen so far
+     */
+    begin() {
+        this.proxy.frames.splice(0);
+    }
+
+    /**
+     * Traffic since the last call to {@link TrafficRecorder.begin}
+     */
+    end(): TranscriptMessage[] {
+        return toMessages(this.proxy.frames.splice(0));
+    }
+
+    stop(): Promise<void> {
+        return this.proxy.stop();
+    }
+}
+
+/**
+ * Identifies a request and its response within a transcript
+ */
+function requestKey(connection: number, message: TranscriptMessage): string {
+    const requester = message.type === 'request' ? message.from : (message.from === 'client' ? 'server' : 'client');
+    return `${connection}:${requester}:${message.id}`;
+}
+
+function toMessages(frames: ForwardedFrame[]): TranscriptMessage[] {
+    const methods = new Map<string, string>();
+    return frames.map(frame => {
+        const message = frame.message;
+        const entry: TranscriptMessage = {
+            connection: frame.connection,
+            from: frame.direction === 'upstream' ? 'client' : 'server',
+            type: message.method === undefined ? 'response' : (message.id === undefined ? 'notification' : 'request')
+        };
+        if (message.id !== undefined) {
+            entry.id = message.id;
+        }
+        if (entry.type === 'request') {
+            methods.set(requestKey(entry.connection, entry), message.method);
+        }
+        entry.method = entry.type === 'response' ? methods.get(requestKey(entry.connection, entry)) : message.method;
+        ['params', 'result', 'error'].filter(field => message[field] !== undefined)
+            .forEach(field => (entry as any)[field] = message[field]);
+        return entry;
+    });
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// longer strings are replaced by their length, keeping payload stress tests out of the golden files
+const MAX_STRING = 4096;
+
+// process output arrives in chunks of any size and number
+const excludedMethods = ['client/serverProcessOutputAppended'];
+
+const timestamps: [RegExp, string][] = [
+    [/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}([.,]\d+)?(Z|[+-]\d{2}:?\d{2})?/g, '<timestamp>'],
+    [/\b\d{2}:\d{2}:\d{2},\d{3}\b/g, '<time>']
+];
+
+/**
+ * Messages the server sent between two client messages in a fixed order, as responses and the
+ * notifications of concurrent work arrive in any order
+ */
+function sortServerMessages(messages: TranscriptMessage[]): TranscriptMessage[] {
+    const types = ['response', 'request', 'notification'];
+    const key = (message: TranscriptMessage) => JSON.stringify([message.connection, types.indexOf(message.type),
+        message.method || '', message.id === undefined ? -1 : message.id, message.params, message.result, message.error]);
+    const sorted: TranscriptMessage[] = [];
+    let stretch: TranscriptMessage[] = [];
+    const flush = () => {
+        sorted.push(...stretch.sort((a, b) => key(a) < key(b) ? -1 : (key(a) > key(b) ? 1 : 0)));
+        stretch = [];
+    };
+    messages.forEach(message => {
+        if (message.from === 'server') {
+            stretch.push(message);
+        } else {
+            flush();
+            sorted.push(message);
+        }
+    });
+    flush();
+    return sorted;
+}
+
+/**
+ * Replaces values that differ between runs: server messages between two client messages are
+ * sorted, process output is left out, request ids and connection numbers are renumbered in order of
+ * appearance, the given directories become ${name} placeholders, random suffixes of temporary
+ * directories, timestamps and port numbers are masked and huge strings shortened.
+ *
+ * @param messages recorded messages
+ * @param locations directories to replace by name, such as { cwd: process.cwd() }
+ */
+export function normalize(messages: TranscriptMessage[], locations: { [name: string]: string }): TranscriptMessage[] {
+    const replacements: [RegExp, string][] = Object.keys(locations)
+        .filter(name => locations[name])
+        .sort((a, b) => locations[b].length - locations[a].length)
+        .map(name => [new RegExp(escapeRegExp(locations[name]), 'g'), `\${${name}}`] as [RegExp, string]);
+    replacements.push([/(\$\{tmp\}[\\/][\w.-]*-)[A-Za-z0-9]{6}(?![\w.-])/g, '$1XXXXXX'], ...timestamps);
+
+    const clean = (value: any, key?: string): any => {
+        if (typeof value === 'string' && value.length > MAX_STRING) {
+            return `<${value.length} characters>`;
+        }
+        if (typeof value === 'string') {
+            return replacements.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+        }
+        if (typeof value === 'number' && /port$/i.test(key || '')) {
+            return '<port>';
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => clean(item));
+        }
+        if (value && typeof value === 'object') {
+            const result: any = {};
+            Object.keys(value).forEach(name => result[name] = clean(value[name], name));
+            return result;
+        }
+        return value;
+    };
+
+    const cleaned = messages.filter(message => excludedMethods.indexOf(message.method) < 0).map(message => {
+        const result: TranscriptMessage = Object.assign({}, message);
+        ['params', 'result', 'error'].filter(field => (message as any)[field] !== undefined)
+            .forEach(field => (result as any)[field] = clean((message as any)[field]));
+        return result;
+    });
+
+    const connections = new Map<number, number>();
+    const ids = new Map<string, number>();
+    return sortServerMessages(cleaned).map(message => {
+        if (!connections.has(message.connection)) {
+            connections.set(message.connection, connections.size + 1);
+        }
+        const connection = connections.get(message.connection);
+        const result: TranscriptMessage = Object.assign({}, message, { connection });
+        if (message.id !== undefined) {
+            const key = requestKey(connection, message);
+            if (!ids.has(key)) {
+                ids.set(key, ids.size + 1);
+            }
+            result.id = ids.get(key);
+        }
+        return result;
+    });
+}
+
+/**
+ * Appends lines to the diff with the given mark, one at a time as the lists may be long
+ */
+function push(lines: string[], mark: string, items: string[]) {
+    items.forEach(item => lines.push(`${mark} ${item}`));
+}
+
+/**
+ * Appends the diff of two line lists, aligning only what lies between their common head and tail
+ */
+function diffRange(a: string[], b: string[], lines: string[]) {
+    let head = 0;
+    while (head < a.length && head < b.length && a[head] === b[head]) {
+        head++;
+    }
+    let tail = 0;
+    while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) {
+        tail++;
+    }
+    push(lines, ' ', a.slice(0, head));
+    const removed = a.slice(head, a.length - tail);
+    const added = b.slice(head, b.length - tail);
+    if (removed.length === 0 || added.length === 0) {
+        push(lines, '-', removed);
+        push(lines, '+', added);
+    } else {
+        bisect(removed, added, lines);
+    }
+    push(lines, ' ', a.slice(a.length - tail));
+}
+
+/**
+ * Myers' search for the middle snake of the shortest edit script, running forward from the start
+ * and backward from the end until the paths overlap, then diffing both halves on their own. Time
+ * grows with the length times the number of differences, space with the length only.
+ */
+function bisect(a: string[], b: string[], lines: string[]) {
+    const maxD = Math.ceil((a.length + b.length) / 2);
+    const offset = maxD;
+    const forward = new Int32Array(2 * maxD).fill(-1);
+    const backward = new Int32Array(2 * maxD).fill(-1);
+    forward[offset + 1] = 0;
+    backward[offset + 1] = 0;
+    const delta = a.length - b.length;
+    // the paths meet on the forward pass when delta is odd, on the backward pass otherwise
+    const front = delta % 2 !== 0;
+    let k1start = 0;
+    let k1end = 0;
+    let k2start = 0;
+    let k2end = 0;
+    const split = (x: number, y: number) => {
+        diffRange(a.slice(0, x), b.slice(0, y), lines);
+        diffRange(a.slice(x), b.slice(y), lines);
+    };
+    for (let d = 0; d < maxD; d++) {
+        for (let k1 = -d + k1start; k1 <= d - k1end; k1 += 2) {
+            const k1Offset = offset + k1;
+            let x1 = k1 === -d || (k1 !== d && forward[k1Offset - 1] < forward[k1Offset + 1])
+                ? forward[k1Offset + 1] : forward[k1Offset - 1] + 1;
+            let y1 = x1 - k1;
+            while (x1 < a.length && y1 < b.length && a[x1] === b[y1]) {
+                x1++;
+                y1++;
+            }
+            forward[k1Offset] = x1;
+            if (x1 > a.length) {
+                k1end += 2;
+            } else if (y1 > b.length) {
+                k1start += 2;
+            } else if (front) {
+                const k2Offset = offset + delta - k1;
+                if (k2Offset >= 0 && k2Offset < backward.length && backward[k2Offset] !== -1
+                        && x1 >= a.length - backward[k2Offset]) {
+                    return split(x1, y1);
+                }
+            }
+        }
+        for (let k2 = -d + k2start; k2 <= d - k2end; k2 += 2) {
+            const k2Offset = offset + k2;
+            let x2 = k2 === -d || (k2 !== d && backward[k2Offset - 1] < backward[k2Offset + 1])
+                ? backward[k2Offset + 1] : backward[k2Offset - 1] + 1;
+            let y2 = x2 - k2;
+            while (x2 < a.length && y2 < b.length && a[a.length - x2 - 1] === b[b.length - y2 - 1]) {
+                x2++;
+                y2++;
+            }
+            backward[k2Offset] = x2;
+            if (x2 > a.length) {
+                k2end += 2;
+            } else if (y2 > b.length) {
+                k2start += 2;
+            } else if (!front) {
+                const k1Offset = offset + delta - k2;
+                if (k1Offset >= 0 && k1Offset < forward.length && forward[k1Offset] !== -1) {
+                    const x1 = forward[k1Offset];
+                    if (x1 >= a.length - x2) {
+                        return split(x1, offset + x1 - k1Offset);
+                    }
+                }
+            }
+        }
+    }
+    // nothing in common
+    push(lines, '-', a);
+    push(lines, '+', b);
+}
+
+/**
+ * Line diff of two texts, only changed lines with a few lines of context around them. Lines only
+ * in the expected text are marked with -, lines only in the actual text with +.
+ */
+export function diffLines(expected: string, actual: string, context = 3): string {
+    const lines: string[] = [];
+    diffRange(expected.split('\n'), actual.split('\n'), lines);
+    const near = new Uint8Array(lines.length);
+    lines.forEach((line, index) => {
+        if (line[0] !== ' ') {
+            near.fill(1, Math.max(0, index - context), index + context + 1);
+        }
+    });
+    const shown: string[] = [];
+    let previous = -1;
+    lines.forEach((line, index) => {
+        if (near[index]) {
+            if (previous >= 0 && index > previous + 1) {
+                shown.push('...');
+            }
+            shown.push(line);
+            previous = index;
+        }
+    });
+    return shown.join('\n');
+}
+
+function slug(title: string): string {
+    return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'untitled';
+}
+
+/**
+ * Golden transcripts on disk, one JSON file per test below a directory per suite
+ */
+export class TranscriptStore {
+    /** tests whose transcript differed from the golden one, in compare mode */
+    readonly mismatches: string[] = [];
+
+    constructor(readonly mode: TranscriptMode, readonly dir = path.resolve('transcripts')) {
+        if (mode !== 'record' && mode !== 'compare') {
+            throw new Error(`Unknown transcript mode ${mode}, expected record or compare`);
+        }
+    }
+
+    /**
+     * File holding the golden transcript of a test
+     *
+     * @param titlePath suite titles followed by the test title
+     */
+    fileFor(titlePath: string[]): string {
+        const names = titlePath.map(slug);
+        return path.join(this.dir, ...names.slice(0, -1), `${names[names.length - 1]}.json`);
+    }
+
+    /**
+     * Writes the transcript of a test in record mode, compares it to the golden one in compare mode.
+     * A differing transcript is written next to the golden file with an .actual.json suffix.
+     */
+    check(titlePath: string[], messages: TranscriptMessage[]) {
+        const file = this.fileFor(titlePath);
+        const transcript: Transcript = { test: titlePath.join(' > '), messages };
+        const text = JSON.stringify(transcript, null, 2) + '\n';
+        const actualFile = file.replace(/\.json$/, '.actual.json');
+        if (this.mode === 'record') {
+            fs.outputFileSync(file, text);
+            fs.removeSync(actualFile);
+            return;
+        }
+        if (!fs.existsSync(file)) {
+            console.log(`No golden transcript for '${transcript.test}', record one with RSP_TRANSCRIPTS=record`);
+            return;
+        }
+        const golden = fs.readFileSync(file, 'utf8');
+        if (golden === text) {
+            fs.removeSync(actualFile);
+            return;
+        }
+        fs.outputFileSync(actualFile, text);
+        this.mismatches.push(transcript.test);
+        console.log(`Transcript of '${transcript.test}' differs from ${path.relative(process.cwd(), file)}:\n`
+            + diffLines(golden, text));
+    }
+
+    /**
+     * Fails when any transcript differed from its golden file
+     */
+    report() {
+        if (this.mismatches.length > 0) {
+            throw new Error(`${this.mismatches.length} protocol transcripts differ from the golden ones:\n  `
+                + this.mismatches.join('\n  '));
+        }
+    }
+}
@@ -0,0 +1,141 @@
+import * as chai from 'chai';
+import { Artifact, CacheOptions, fetchArtifact, cachePath } from '../resources/artifact-cache';
+import { createRoot } from '../resources/installations';
+import 'mocha';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as http from 'http';
+import * as net from 'net';
+import * as path from 'path';
+
+const expect = chai.expect;
+
+describe('Artifact Cache', () => {
+
+    const artifact: Artifact = { name: 'org.jboss.tools.rsp.distribution', version: '0.0.9.Final', fileName: 'rsp-0.0.9.Final.zip' };
+    const snapshot: Artifact = { name: 'org.jboss.tools.rsp.distribution', version: '0.0.9-SNAPSHOT', fileName: 'rsp-0.0.9-SNAPSHOT.zip' };
+
+    let root: string;
+    let options: CacheOptions;
+
+    beforeEach(() => {
+        root = createRoot('rsp-artifacts-');
+        options = { cacheRoot: path.join(root, 'cache'), mirror: path.join(root, 'mirror'), offline: true, snapshotMaxAge: 24 };
+    });
+
+    afterEach(() => {
+        fs.removeSync(root);
+    });
+
+    const sha256 = (content: string) => crypto.createHash('sha256').update(content).digest('hex');
+
+    function seed(relative: string, content: string): string {
+        const file = path.join(options.mirror, relative);
+        fs.outputFileSync(file, content);
+        return file;
+    }
+
+    async function rejection(promise: Promise<any>): Promise<Error> {
+        return promise.then(() => { throw new Error('expected a rejection'); }, (err: Error) => err);
+    }
+
+    it('takes archives from a flat mirror and from one laid out by artifact and version', async () => {
+        seed(artifact.fileName, 'flat');
+        expect(fs.readFileSync(await fetchArtifact(artifact, options), 'utf8')).equals('flat');
+
+        const nested = Object.assign({}, artifact, { version: '0.0.10.Final' });
+        seed(path.join(nested.name, nested.version, nested.fileName), 'nested');
+        const cached = await fetchArtifact(nested, options);
+        expect(cached).equals(cachePath(nested, options.cacheRoot));
+        expect(fs.readFileSync(cached, 'utf8')).equals('nested');
+    });
+
+    it('takes archives from a file:// mirror', async () => {
+        seed(path.join(artifact.name, artifact.version, artifact.fileName), 'nested');
+        const fileUrl = Object.assign({}, options, { mirror: `file://${options.mirror}` });
+
+        expect(fs.readFileSync(await fetchArtifact(artifact, fileUrl), 'utf8')).equals('nested');
+    });
+
+    it('records the checksum of a cached archive in a sidecar file', async () => {
+        seed(artifact.fileName, 'archive');
+
+        const cached = await fetchArtifact(artifact, options);
+        expect(fs.readFileSync(`${cached}.sha256`, 'utf8')).equals(`${sha256('archive')}  ${artifact.fileName}\n`);
+    });
+
+    it('rejects archives that do not match their checksum', async () => {
+        const file = seed(artifact.fileName, 'tampered');
+        fs.writeFileSync(`${file}.sha256`, `${sha256('original')}  ${artifact.fileName}\n`);
+        expect((await rejection(fetchArtifact(artifact, options))).message).contains('Checksum mismatch');
+        expect(fs.existsSync(cachePath(artifact, options.cacheRoot)), 'cached').false;
+
+        fs.removeSync(`${file}.sha256`);
+        const declared = Object.assign({}, artifact, { sha1: '0000000000000000000000000000000000000000' });
+        expect((await rejection(fetchArtifact(declared, options))).message).contains('expected sha1 0000000000');
+
+        const cached = await fetchArtifact(artifact, options);
+        fs.writeFileSync(cached, 'changed in the cache');
+        expect((await rejection(fetchArtifact(artifact, options))).message).contains(`Checksum mismatch for ${artifact.fileName}`);
+    });
+
+    it('lists the searched locations when an archive is missing offline', async () => {
+        const remote = Object.assign({}, artifact, { url: 'http://download.example.org/rsp.zip' });
+
+        const error = await rejection(fetchArtifact(remote, options));
+        expect(error.message).contains('is not available offline');
+        expect(error.message).contains(cachePath(remote, options.cacheRoot));
+        expect(error.message).contains(path.join(options.mirror, remote.name, remote.version, remote.fileName));
+        expect(error.message).contains(path.join(options.mirror, remote.fileName));
+        expect(error.message).contains('RSP_ARTIFACT_MIRROR');
+    });
+
+    it('verifies downloads against the checksum published next to them', async () => {
+        const published: { [file: string]: string } = { '/rsp.zip': 'downloaded' };
+        const server = http.createServer((request, response) => {
+            const body = published[request.url];
+            response.writeHead(body === undefined ? 404 : 200);
+            response.end(body);
+        });
+        await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const remote = Object.assign({}, artifact,
+                { url: `http://127.0.0.1:${(server.address() as net.AddressInfo).port}/rsp.zip` });
+            const online = Object.assign({}, options, { offline: false });
+
+            published['/rsp.zip.sha1'] = '0000000000000000000000000000000000000000  rsp.zip\n';
+            expect((await rejection(fetchArtifact(remote, online))).message).contains('expected sha1 0000000000');
+
+            published['/rsp.zip.sha256'] = `${sha256('downloaded')}  rsp.zip\n`;
+            expect(fs.readFileSync(await fetchArtifact(remote, online), 'utf8')).equals('downloaded');
+        } finally {
+            server.close();
+        }
+    });
+
+    it('fetches a SNAPSHOT again once its cached copy is older than the maximum age', async () => {
+        const file = seed(snapshot.fileName, 'first build');
+        const cached = await fetchArtifact(snapshot, options);
+        fs.writeFileSync(file, 'second build');
+
+        expect(fs.readFileSync(await fetchArtifact(snapshot, options), 'utf8'), 'fresh').equals('first build');
+
+        const fetched = new Date(Date.now() - 25 * 3600 * 1000);
+        fs.utimesSync(`${cached}.sha256`, fetched, fetched);
+        expect(fs.readFileSync(await fetchArtifact(snapshot, options), 'utf8'), 'stale').equals('second build');
+    });
+
+    it('keeps a stale SNAPSHOT when no newer one can be had and never re-fetches releases', async () => {
+        const file = seed(snapshot.fileName, 'snapshot');
+        const cachedSnapshot = await fetchArtifact(snapshot, options);
+        seed(artifact.fileName, 'release');
+        const cachedRelease = await fetchArtifact(artifact, options);
+        fs.removeSync(file);
+        fs.writeFileSync(path.join(options.mirror, artifact.fileName), 'rebuilt release');
+
+        const fetched = new Date(Date.now() - 25 * 3600 * 1000);
+        [cachedSnapshot, cachedRelease].forEach(cached => fs.utimesSync(`${cached}.sha256`, fetched, fetched));
+        expect(fs.readFileSync(await fetchArtifact(snapshot, options), 'utf8')).equals('snapshot');
+        expect(fs.readFileSync(await fetchArtifact(artifact, options), 'utf8')).equals('release');
+    });
+});
@@ -0,0 +1,31 @@
+import * as chai from 'chai';
+import { Baseline, summarize, findRegressions, P99_MINIMUM_COUNT } from '../resources/benchmark';
+import 'mocha';
+
+const expect = chai.expect;
+
+describe('Benchmark', () => {
+
+    const samples = (count: number, slowest: number) => [...Array(count - 1).fill(10), slowest];
+    const baselineOf = (count: number): Baseline => ({
+        threshold: 0.25,
+        minimumDelta: 5,
+        results: { requests: summarize(samples(count, 10)) }
+    });
+
+    it('findRegressions ignores the p99 of series with few samples', () => {
+        const few = P99_MINIMUM_COUNT - 1;
+        const results = { requests: summarize(samples(few, 100)) };
+
+        expect(results.requests.p99).equals(100);
+        expect(findRegressions(results, baselineOf(few))).deep.equals([]);
+    });
+
+    it('findRegressions compares the p99 of series with enough samples', () => {
+        // the slowest two of 100 samples make up the p99
+        const results = { requests: summarize([...samples(P99_MINIMUM_COUNT - 1, 100), 100]) };
+
+        expect(findRegressions(results, baselineOf(P99_MINIMUM_COUNT)))
+            .deep.equals([{ series: 'requests', statistic: 'p99', baseline: 10, current: 100 }]);
+    });
+});
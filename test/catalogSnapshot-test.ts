@@ -0,0 +1,73 @@
+import * as chai from 'chai';
+import { RSPClient } from 'rsp-client';
+import { getClient } from '../resources/fixture';
+import { rspVersion } from '../resources/runtime';
+import { CatalogSnapshot, SnapshotStore, captureCatalog, diffCatalog, formatCatalogDiff } from '../resources/snapshot';
+import { createRoot } from '../resources/installations';
+import 'mocha';
+import * as fs from 'fs-extra';
+
+const expect = chai.expect;
+
+describe('Catalog Snapshot', () => {
+
+    let client: RSPClient;
+
+    before(() => {
+        client = getClient();
+    });
+
+    it('getServerTypes with attributes and launch modes matches the snapshot', async () => {
+        const catalog = await captureCatalog(client);
+        expect(Object.keys(catalog.serverTypes)).not.empty;
+
+        // the mock only imitates the catalog, its snapshot must not stand in for the distribution's
+        const name = process.env.RSP_MOCK ? `catalog/mock/${rspVersion()}` : `catalog/${rspVersion()}`;
+        new SnapshotStore().checkCatalog(name, catalog);
+    });
+
+    it('catalog diffs separate added and removed types from changed fields', () => {
+        const type = (description: string) => ({
+            visibleName: 'Type',
+            description,
+            requiredAttributes: { 'server.home.dir': { type: 'string', description: 'home', defaultVal: null } },
+            optionalAttributes: {},
+            launchModes: { run: 'run it' }
+        });
+        const expected: CatalogSnapshot = { serverTypes: { kept: type('old wording'), removed: type('gone') } };
+        const actual: CatalogSnapshot = { serverTypes: { kept: type('new wording'), added: type('new') } };
+        actual.serverTypes.kept.launchModes.debug = 'debug it';
+
+        const diff = diffCatalog(expected, actual);
+        expect(diff.addedTypes).deep.equals(['added']);
+        expect(diff.removedTypes).deep.equals(['removed']);
+        expect(diff.changedTypes).deep.equals({ kept: [
+            { path: ['description'], kind: 'changed', expected: 'old wording', actual: 'new wording' },
+            { path: ['launchModes', 'debug'], kind: 'added', actual: 'debug it' }
+        ] });
+        expect(formatCatalogDiff(diff, actual)).equals([
+            'Added server types:',
+            '  + added (Type)',
+            'Removed server types:',
+            '  - removed',
+            'Changed server types:',
+            '  kept',
+            '    ~ description: "old wording" -> "new wording"',
+            '    + launchModes / debug: "debug it"'
+        ].join('\n'));
+    });
+
+    it('a missing snapshot fails unless snapshots are being updated', () => {
+        const dir = createRoot('rsp-snapshots-');
+        const catalog: CatalogSnapshot = { serverTypes: {} };
+        try {
+            expect(() => new SnapshotStore(dir, false).checkCatalog('catalog/missing', catalog)).throws('RSP_UPDATE_SNAPSHOTS=1');
+            expect(fs.existsSync(new SnapshotStore(dir).fileFor('catalog/missing')), 'written without updating').false;
+
+            new SnapshotStore(dir, true).checkCatalog('catalog/missing', catalog);
+            new SnapshotStore(dir, false).checkCatalog('catalog/missing', catalog);
+        } finally {
+            fs.removeSync(dir);
+        }
+    });
+});
@@ -0,0 +1,94 @@
+import * as chai from 'chai';
+import { RSPClient } from 'rsp-client';
+import { getClient } from '../resources/fixture';
+import { CoverageTracker, CoverageEntry } from '../resources/coverage';
+import { TranscriptMessage } from '../resources/transcript';
+import 'mocha';
+
+const expect = chai.expect;
+
+describe('Protocol Coverage', () => {
+
+    let tracker: CoverageTracker;
+
+    beforeEach(() => {
+        tracker = new CoverageTracker();
+    });
+
+    function entry(name: string): CoverageEntry {
+        return tracker.report().find(candidate => candidate.name === name);
+    }
+
+    function request(connection: number, id: number, method: string, params?: any): TranscriptMessage {
+        return { connection, from: 'client', type: 'request', id, method, params };
+    }
+
+    function response(connection: number, id: number, method: string, answer: { result?: any, error?: any }): TranscriptMessage {
+        return Object.assign({ connection, from: 'server', type: 'response', id, method } as TranscriptMessage, answer);
+    }
+
+    it('counts requests by their responses and notifications as positive', () => {
+        tracker.setTest('Suite > test');
+        tracker.addTraffic([
+            request(1, 1, 'server/getServerHandles'),
+            request(1, 2, 'server/addDiscoveryPath', { filepath: '/opt' }),
+            { connection: 1, from: 'server', type: 'notification', method: 'client/discoveryPathAdded', params: { filepath: '/opt' } },
+            response(1, 2, 'server/addDiscoveryPath', { result: { severity: 0, message: 'ok' } }),
+            response(1, 1, 'server/getServerHandles', { result: [] })
+        ]);
+
+        expect(entry('server/getServerHandles')).include({ kind: 'request', status: 'covered', positive: 1, negative: 0 });
+        expect(entry('server/addDiscoveryPath')).include({ status: 'covered', positive: 1, negative: 0 });
+        expect(entry('client/discoveryPathAdded')).include({ kind: 'client notification', status: 'covered', positive: 1 });
+        expect(entry('client/discoveryPathAdded').tests).deep.equals(['Suite > test']);
+        expect(entry('server/getServerTypes')).include({ status: 'uncovered', positive: 0, negative: 0 });
+    });
+
+    it('counts errors, failed statuses, null results and unanswered requests as negative', () => {
+        tracker.setTest('Suite > test');
+        tracker.addTraffic([
+            request(1, 1, 'server/createServer'),
+            response(1, 1, 'server/createServer', { result: { severity: 4, message: 'missing attribute' } }),
+            request(1, 2, 'server/createServer'),
+            response(1, 2, 'server/createServer', { error: { code: -32602, message: 'Invalid params' } }),
+            request(1, 3, 'server/getServerHandles'),
+            request(2, 3, 'server/getServerTypes'),
+            response(2, 3, 'server/getServerTypes', { result: null }),
+            // the response of another connection with the same id does not answer the request
+            response(3, 3, 'server/getServerHandles', { result: [] })
+        ]);
+
+        expect(entry('server/createServer')).include({ status: 'negative only', positive: 0, negative: 2 });
+        expect(entry('server/getServerTypes')).include({ status: 'negative only', negative: 1 });
+        expect(entry('server/getServerHandles')).include({ status: 'negative only', negative: 1 });
+    });
+
+    it('only counts traffic once a test is set', () => {
+        tracker.addTraffic([{ connection: 1, from: 'server', type: 'notification', method: 'client/discoveryPathAdded' }]);
+        tracker.setTest('Suite > first');
+        tracker.addTraffic([{ connection: 1, from: 'server', type: 'notification', method: 'client/discoveryPathAdded' }]);
+        tracker.setTest('Suite > second');
+        tracker.addTraffic([{ connection: 1, from: 'server', type: 'notification', method: 'client/discoveryPathAdded' }]);
+
+        expect(entry('client/discoveryPathAdded')).include({ positive: 2 });
+        expect(entry('client/discoveryPathAdded').tests).deep.equals(['Suite > first', 'Suite > second']);
+    });
+
+    it('counts client method calls until the client is restored', async () => {
+        const client: RSPClient = getClient();
+        tracker.setTest('Suite > test');
+        tracker.instrumentClient();
+        try {
+            await client.getServerTypes();
+            await client.getServerHandles();
+            await client.getServerTypeRequiredAttributes(null).catch(() => undefined);
+        } finally {
+            tracker.restoreClient();
+        }
+        await client.getServerTypes();
+
+        expect(entry('getServerTypes')).include({ kind: 'client method', status: 'covered', positive: 1, negative: 0 });
+        expect(entry('getServerHandles')).include({ status: 'covered', positive: 1 });
+        expect(entry('getServerTypeRequiredAttributes')).include({ status: 'negative only', negative: 1 });
+    });
+});
@@ -1,44 +1,30 @@
 import * as chai from 'chai';
-import { RSPClient, Protocol } from 'rsp-client';
-import * as server from '../resources/server-util';
+import { RSPClient } from 'rsp-client';
+import { getClient } from '../resources/fixture';
+import { waitForNotification } from '../resources/notifications';
+import { currentRuntime } from '../resources/runtime';
 import 'mocha';
 import * as path from 'path';
 
 const expect = chai.expect;
 const wildFlyRoot = path.resolve('./wildfly');
+const runtime = currentRuntime();
 
 describe('Discovery', () => {
 
     let client: RSPClient;
-    let port: number;
 
-    before(function(done) {
-        this.timeout(300000);
-        server.clearData();
-        server.download()
-        .then(() => { return server.getWildfly(); })
-        .then(() => { return server.start(); })
-        .then(async (result) => {
-            port = result;
-            client = new RSPClient('localhost', port);
-            await client.connect();
-            done();
-        });
-    });
-
-    after(() => {
-        client.disconnect();
-        server.stop();
-        server.clearData();
+    before(() => {
+        client = getClient();
     });
 
     it('findServerBeans should find wildfly', async () => {
         const beans = await client.findServerBeans(wildFlyRoot);
 
-        expect(beans[0].serverAdapterTypeId).equals('org.jboss.ide.eclipse.as.wildfly.130');
-        expect(beans[0].specificType).equals('WildFly');
-        expect(beans[0].typeCategory).equals('WildFly');
-        expect(beans[0].fullVersion).equals('13.0.0.Final');
+        expect(beans[0].serverAdapterTypeId).equals(runtime.serverAdapterTypeId);
+        expect(beans[0].specificType).equals(runtime.specificType);
+        expect(beans[0].typeCategory).equals(runtime.typeCategory);
+        expect(beans[0].fullVersion).equals(runtime.version);
     });
 
     it('findServerBeans should not find anything in a non-server folder', async () => {
@@ -95,17 +81,15 @@ describe('Discovery', () => {
         expect(status.severity).greaterThan(0);
     });
 
-    it('addDiscoveryPath should respond with a notification', (done) => {
+    it('addDiscoveryPath should respond with a notification', async () => {
         const apath = path.resolve('.');
-        const listener = (path: Protocol.DiscoveryPath) => {
-            if (path.filepath === apath) {
-                client.removeListener('discoveryPathAdded', listener);
-                client.removeDiscoveryPathSync(path);
-                done();
-            }
-        }
-        client.onDiscoveryPathAdded(listener);
-        client.addDiscoveryPathAsync(apath);
+        const added = waitForNotification(client, 'discoveryPathAdded', param => param.filepath === apath);
+
+        await client.addDiscoveryPathAsync(apath);
+        const notified = await added;
+        await client.removeDiscoveryPathSync(notified);
+
+        expect(notified).deep.equals({ filepath: apath });
     });
 
     it('removeDiscoveryPath should remove an existing path', async () => {
@@ -139,18 +123,14 @@ describe('Discovery', () => {
         expect(status.severity).greaterThan(0);
     });
 
-    it('removeDiscoveryPath should respond with a notification', (done) => {
+    it('removeDiscoveryPath should respond with a notification', async () => {
         const rpath = path.resolve('./server');
-        const listener = (path: Protocol.DiscoveryPath) => {
-            if (path.filepath === rpath) {
-                client.removeListener('discoveryPathRemoved', listener);
-                done();
-            }
-        }
-        client.onDiscoveryPathAdded(listener);
-        client.addDiscoveryPathAsync(rpath).then(() => { 
-            client.removeDiscoveryPathSync(rpath);
-        });
+        await client.addDiscoveryPathSync(rpath);
+        const removed = waitForNotification(client, 'discoveryPathRemoved', param => param.filepath === rpath);
+
+        await client.removeDiscoveryPathAsync(rpath);
+
+        expect(await removed).deep.equals({ filepath: rpath });
     });
 
     it('getDiscoveryPaths should return all paths', async () => {
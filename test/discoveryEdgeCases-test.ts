@@ -0,0 +1,232 @@
+import * as chai from 'chai';
+import { RSPClient, Protocol } from 'rsp-client';
+import { getClient } from '../resources/fixture';
+import { installations, createRoot } from '../resources/installations';
+import { buildTree, removeTree, installation, directory, symlink, file, nested, permissionsEnforced } from '../resources/discovery-trees';
+import 'mocha';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+const expect = chai.expect;
+
+describe('Discovery Edge Cases', () => {
+
+    const wildfly = installations.find(candidate => candidate.name === 'wildfly-13.0.0.Final');
+    const eap = installations.find(candidate => candidate.name === 'jboss-eap-7.1.0.GA');
+    const minishift = installations.find(candidate => candidate.name === 'minishift-1.14.0');
+
+    let client: RSPClient;
+    let suiteRoot: string;
+    let root: string;
+    let added: Protocol.DiscoveryPath[];
+
+    before(() => {
+        client = getClient();
+        suiteRoot = createRoot('rsp-discovery-');
+    });
+
+    after(() => {
+        // also removes the trees of tests skipped after they were created
+        removeTree(suiteRoot);
+    });
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(suiteRoot, 'case-'));
+        added = [];
+    });
+
+    afterEach(async () => {
+        for (const discoveryPath of added) {
+            await client.removeDiscoveryPathAsync(discoveryPath);
+        }
+        removeTree(root);
+    });
+
+    async function addDiscoveryPath(filepath: string): Promise<Protocol.DiscoveryPath> {
+        const discoveryPath = await client.addDiscoveryPathSync(filepath);
+        added.push(discoveryPath);
+        return discoveryPath;
+    }
+
+    async function expectDetected(location: string, expected = wildfly) {
+        const beans = await client.findServerBeans(location);
+
+        expect(beans, location).length(1);
+        expect(beans[0].location).equals(location);
+        expect(beans[0].typeCategory).equals(expected.typeCategory);
+        expect(beans[0].serverAdapterTypeId).equals(expected.serverAdapterTypeId);
+        expect(beans[0].fullVersion).equals(expected.fullVersion);
+    }
+
+    async function expectUnknown(location: string) {
+        const beans = await client.findServerBeans(location);
+
+        expect(beans, location).length(1);
+        expect(beans[0].location).equals(location);
+        expect(beans[0].typeCategory).equals('UNKNOWN');
+        expect(beans[0].serverAdapterTypeId).undefined;
+    }
+
+    describe('names', () => {
+        it('findServerBeans detects installations below paths with spaces', async () => {
+            const locations = buildTree(root, nested(['Program Files', 'Red Hat'], 'wild fly 13', installation(wildfly)));
+
+            await expectDetected(locations[path.join('Program Files', 'Red Hat', 'wild fly 13')]);
+        });
+
+        it('findServerBeans detects installations below unicode paths', async () => {
+            const locations = buildTree(root, nested(['Serveurs d’application', 'サーバー'], 'wildfly-13 ü', installation(wildfly)));
+
+            await expectDetected(locations[path.join('Serveurs d’application', 'サーバー', 'wildfly-13 ü')]);
+        });
+
+        it('findServerBeans detects installations below very long paths', async () => {
+            const long = (letter: string) => letter.repeat(200);
+            const parents = ['a', 'b', 'c', 'd'].map(long);
+            const locations = buildTree(root, nested(parents, long('w'), installation(wildfly)));
+            const location = locations[path.join(...parents, long('w'))];
+            expect(location.length).greaterThan(1000);
+
+            await expectDetected(location);
+        });
+
+        it('getDiscoveryPaths returns spaces and unicode unchanged', async () => {
+            buildTree(root, { 'my servers': directory(), 'серверы ✓': directory() });
+            const spaces = await addDiscoveryPath(path.join(root, 'my servers'));
+            const unicode = await addDiscoveryPath(path.join(root, 'серверы ✓'));
+
+            const paths = await client.getDiscoveryPaths();
+            expect(paths).deep.include.members([{ filepath: spaces.filepath }, { filepath: unicode.filepath }]);
+            expect(unicode.filepath).equals(path.join(root, 'серверы ✓'));
+        });
+    });
+
+    describe('symlinks', () => {
+        it('findServerBeans detects an installation through a symlink and reports the link', async () => {
+            buildTree(root, {
+                'opt': directory({ 'wildfly-13.0.0.Final': installation(wildfly) }),
+                'current': symlink(path.join('opt', 'wildfly-13.0.0.Final'))
+            });
+
+            await expectDetected(path.join(root, 'current'));
+        });
+
+        it('findServerBeans follows a chain of symlinks', async () => {
+            buildTree(root, {
+                'wildfly-13.0.0.Final': installation(wildfly),
+                'latest': symlink('wildfly-13.0.0.Final'),
+                'server': symlink('latest')
+            });
+
+            await expectDetected(path.join(root, 'server'));
+        });
+
+        it('findServerBeans reports a dangling symlink as unknown', async () => {
+            buildTree(root, { 'removed': symlink('no-such-installation') });
+
+            await expectUnknown(path.join(root, 'removed'));
+        });
+
+        it('findServerBeans reports a symlink loop as unknown', async () => {
+            buildTree(root, { 'ping': symlink('pong'), 'pong': symlink('ping') });
+
+            await expectUnknown(path.join(root, 'ping'));
+        });
+
+        it('findServerBeans detects an installation containing a symlink to its parent', async () => {
+            const locations = buildTree(root, { 'servers': directory({
+                'wildfly-13.0.0.Final': installation(wildfly),
+                'loop': symlink('.')
+            }) });
+
+            await expectDetected(locations[path.join('servers', 'wildfly-13.0.0.Final')]);
+            await expectDetected(path.join(root, 'servers', 'loop', 'loop', 'wildfly-13.0.0.Final'));
+        });
+
+        it('addDiscoveryPath registers a symlink loop as given', async () => {
+            buildTree(root, { 'ping': symlink('pong'), 'pong': symlink('ping') });
+            const loop = await addDiscoveryPath(path.join(root, 'ping'));
+
+            expect(await client.getDiscoveryPaths()).deep.include({ filepath: loop.filepath });
+        });
+    });
+
+    describe('permissions', () => {
+        beforeEach(function() {
+            if (!permissionsEnforced()) {
+                this.skip();
+            }
+        });
+
+        it('findServerBeans reports an unreadable installation as unknown', async () => {
+            buildTree(root, { 'locked': directory({ 'wildfly-13.0.0.Final': installation(wildfly) }, 0) });
+
+            await expectUnknown(path.join(root, 'locked', 'wildfly-13.0.0.Final'));
+        });
+
+        it('findServerBeans detects an installation next to an unreadable directory', async () => {
+            const locations = buildTree(root, { 'servers': directory({
+                'private': directory({ 'wildfly-13.0.0.Final': installation(wildfly) }, 0),
+                'jboss-eap-7.1.0.GA': installation(eap)
+            }) });
+
+            await expectDetected(locations[path.join('servers', 'jboss-eap-7.1.0.GA')], eap);
+        });
+
+        it('addDiscoveryPath registers an unreadable directory', async () => {
+            buildTree(root, { 'locked': directory({}, 0) });
+            const locked = await addDiscoveryPath(path.join(root, 'locked'));
+
+            expect(await client.getDiscoveryPaths()).deep.include({ filepath: locked.filepath });
+        });
+    });
+
+    describe('layouts', () => {
+        it('findServerBeans only detects an installation at its own path, not several levels above', async () => {
+            const parents = ['workspace', 'project', 'target', 'servers'];
+            const locations = buildTree(root, nested(parents, 'wildfly-13.0.0.Final', installation(wildfly)));
+
+            for (let depth = 0; depth < parents.length; depth++) {
+                await expectUnknown(path.join(root, ...parents.slice(0, depth + 1)));
+            }
+            await expectDetected(locations[path.join(...parents, 'wildfly-13.0.0.Final')]);
+        });
+
+        it('getDiscoveryPaths lists a discovery path above nested installations once', async () => {
+            buildTree(root, nested(['workspace', 'project'], 'wildfly-13.0.0.Final', installation(wildfly)));
+            const workspace = await addDiscoveryPath(path.join(root, 'workspace'));
+
+            const paths = (await client.getDiscoveryPaths()).filter(candidate => candidate.filepath.startsWith(root));
+            expect(paths).deep.equals([{ filepath: workspace.filepath }]);
+        });
+
+        it('findServerBeans tells apart several servers in one directory', async () => {
+            const locations = buildTree(root, { 'servers': directory({
+                'wildfly-13.0.0.Final': installation(wildfly),
+                'jboss-eap-7.1.0.GA': installation(eap),
+                'minishift-1.14.0': installation(minishift),
+                'README.txt': file('servers of the team\n')
+            }) });
+
+            await expectUnknown(path.join(root, 'servers'));
+            await expectDetected(locations[path.join('servers', 'wildfly-13.0.0.Final')]);
+            await expectDetected(locations[path.join('servers', 'jboss-eap-7.1.0.GA')], eap);
+            await expectDetected(locations[path.join('servers', 'minishift-1.14.0')], minishift);
+            await expectUnknown(path.join(root, 'servers', 'README.txt'));
+        });
+
+        it('a discovery path removed from disk stays registered until it is removed from the server', async () => {
+            const locations = buildTree(root, { 'servers': directory({ 'wildfly-13.0.0.Final': installation(wildfly) }) });
+            const servers = await addDiscoveryPath(path.join(root, 'servers'));
+            fs.removeSync(path.join(root, 'servers'));
+
+            expect(await client.getDiscoveryPaths()).deep.include({ filepath: servers.filepath });
+            await expectUnknown(locations[path.join('servers', 'wildfly-13.0.0.Final')]);
+
+            const removed = await client.removeDiscoveryPathSync(servers);
+            added = [];
+            expect(removed).deep.equals({ filepath: servers.filepath });
+            expect(await client.getDiscoveryPaths()).not.deep.include({ filepath: servers.filepath });
+        });
+    });
+});
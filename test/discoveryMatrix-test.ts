@@ -0,0 +1,53 @@
+import * as chai from 'chai';
+import { RSPClient } from 'rsp-client';
+import { getClient } from '../resources/fixture';
+import { installations, createInstallation, createRoot } from '../resources/installations';
+import * as fs from 'fs-extra';
+import 'mocha';
+
+const expect = chai.expect;
+
+describe('Discovery Matrix', () => {
+
+    let client: RSPClient;
+    let root: string;
+
+    before(() => {
+        client = getClient();
+        root = createRoot();
+    });
+
+    after(() => {
+        fs.removeSync(root);
+    });
+
+    it('every server type has an installation in the matrix', async () => {
+        const serverTypes = await client.getServerTypes();
+        const covered = installations.map(installation => installation.serverAdapterTypeId);
+
+        expect(covered).to.include.members(serverTypes.map(type => type.id));
+    });
+
+    installations.forEach(installation => {
+        it(`findServerBeans should detect ${installation.name}`, async () => {
+            const location = createInstallation(root, installation);
+            const beans = await client.findServerBeans(location);
+
+            expect(beans).length(1);
+            expect(beans[0].location).equals(location);
+            expect(beans[0].serverAdapterTypeId).equals(installation.serverAdapterTypeId);
+            expect(beans[0].typeCategory).equals(installation.typeCategory);
+            expect(beans[0].specificType).equals(installation.specificType);
+            expect(beans[0].fullVersion).equals(installation.fullVersion);
+        });
+    });
+
+    it('findServerBeans should not detect an installation without jboss-modules.jar', async () => {
+        const location = createInstallation(root, Object.assign({}, installations[0], { name: 'broken-wildfly' }));
+        fs.removeSync(`${location}/jboss-modules.jar`);
+
+        const beans = await client.findServerBeans(location);
+        expect(beans[0].typeCategory).equals('UNKNOWN');
+        expect(beans[0].serverAdapterTypeId).undefined;
+    });
+});
@@ -0,0 +1,119 @@
+import * as chai from 'chai';
+import { RSPClient, Protocol, ServerState } from 'rsp-client';
+import { getClient, resetServer } from '../resources/fixture';
+import { recordNotifications, waitForState, expectStateSequence } from '../resources/notifications';
+import { ExternalLaunch, launchExternally, waitForPort } from '../resources/external-launch';
+import { MANAGEMENT_PORT } from '../resources/fake-server-process';
+import 'mocha';
+import * as path from 'path';
+
+const expect = chai.expect;
+
+describe('External Launch', function() {
+    this.timeout(90000);
+
+    const wildflyRoot = path.resolve('./wildfly');
+
+    let client: RSPClient;
+    let handle: Protocol.ServerHandle;
+    let params: Protocol.LaunchParameters;
+    let launch: ExternalLaunch;
+
+    before(() => {
+        client = getClient();
+    });
+
+    beforeEach(async () => {
+        handle = await client.createServerSync(wildflyRoot, 'external');
+        params = {
+            mode: 'run',
+            params: { id: handle.id, serverType: handle.type.id, attributes: { 'server.home.dir': wildflyRoot } }
+        };
+    });
+
+    afterEach(async function() {
+        this.timeout(30000);
+        if (launch) {
+            await launch.stop();
+            launch = null;
+        }
+        await resetServer();
+    });
+
+    /**
+     * Spawns the command the RSP hands out for the test server
+     */
+    async function launchServer(): Promise<ExternalLaunch> {
+        const details = await client.getServerLaunchCommand(params);
+        expect(details, 'launch command').not.null;
+        launch = launchExternally(details);
+        return launch;
+    }
+
+    it('serverStartingByClient with polling reaches STARTED once the launched process is up', async () => {
+        const recording = recordNotifications(client);
+        try {
+            await launchServer();
+
+            const started = waitForState(client, handle, ServerState.STARTED, 60000);
+            const status = await client.serverStartingByClient({ initiatePolling: true, request: params });
+            expect(status.severity, status.message).equals(0);
+            await started;
+        } finally {
+            recording.stop();
+        }
+
+        expectStateSequence(recording, handle, [ServerState.STARTING, ServerState.STARTED]);
+        // the RSP may only report STARTED once the process answers on its management port
+        await waitForPort(MANAGEMENT_PORT, 1000);
+        expect(launch.output).match(/WFLYSRV0025/);
+    });
+
+    it('serverStartingByClient with polling keeps the server STARTING while the process is down', async () => {
+        const status = await client.serverStartingByClient({ initiatePolling: true, request: params });
+        expect(status.severity, status.message).equals(0);
+
+        const started = waitForState(client, handle, ServerState.STARTED, 2000).then(() => true, () => false);
+        expect(await started, 'STARTED without a running process').false;
+
+        const nowStarted = waitForState(client, handle, ServerState.STARTED, 60000);
+        await launchServer();
+        await nowStarted;
+    });
+
+    it('serverStartedByClient is honoured for a process the client launched', async () => {
+        const recording = recordNotifications(client);
+        try {
+            await launchServer();
+
+            const starting = await client.serverStartingByClient({ initiatePolling: false, request: params });
+            expect(starting.severity, starting.message).equals(0);
+            await waitForPort(MANAGEMENT_PORT);
+
+            const started = waitForState(client, handle, ServerState.STARTED, 10000);
+            const status = await client.serverStartedByClient(params);
+            expect(status.severity, status.message).equals(0);
+            await started;
+        } finally {
+            recording.stop();
+        }
+
+        expectStateSequence(recording, handle, [ServerState.STARTING, ServerState.STARTED]);
+    });
+
+    it('stopServerAsync is honoured for a server the client launched', async () => {
+        await launchServer();
+        const started = waitForState(client, handle, ServerState.STARTED, 60000);
+        await client.serverStartingByClient({ initiatePolling: true, request: params });
+        await started;
+
+        const stopped = waitForState(client, handle, ServerState.STOPPED, 30000);
+        const status = await client.stopServerAsync({ id: handle.id, force: false });
+        expect(status.severity, status.message).equals(0);
+        await stopped;
+
+        // the RSP has to end the process itself, the teardown would stop it otherwise
+        expect(await launch.waitForExit(10000), 'exit code of the launched process').equals(0);
+        expect(launch.output).match(/WFLYSRV0050/);
+    });
+});
@@ -0,0 +1,203 @@
+import * as chai from 'chai';
+import { RSPClient, Protocol, ServerState } from 'rsp-client';
+import { getClient, getPort, resetServer } from '../resources/fixture';
+import { FaultProxy } from '../resources/fault-proxy';
+import { waitForNotification, waitForState } from '../resources/notifications';
+import * as path from 'path';
+import 'mocha';
+
+const expect = chai.expect;
+
+describe('Fault Injection', () => {
+
+    const wildflyRoot = path.resolve('./wildfly');
+
+    let client: RSPClient;
+    let proxy: FaultProxy;
+    let proxied: RSPClient;
+
+    before(() => {
+        client = getClient();
+    });
+
+    beforeEach(async () => {
+        proxy = new FaultProxy(getPort());
+        await proxy.start();
+        proxied = new RSPClient('localhost', proxy.port);
+        await proxied.connect();
+    });
+
+    afterEach(async function() {
+        this.timeout(30000);
+        // disposing a client whose connection was cut would reject its requests still in flight
+        if (proxy.connections > 0) {
+            proxied.disconnect();
+        }
+        await proxy.stop();
+        await resetServer();
+    });
+
+    function isPending(promise: Promise<any>, ms: number): Promise<boolean> {
+        const marker = {};
+        return Promise.race([promise, new Promise(resolve => setTimeout(() => resolve(marker), ms))])
+            .then(result => result === marker);
+    }
+
+    function launchParameters(handle: Protocol.ServerHandle): Protocol.LaunchParameters {
+        return {
+            mode: 'run',
+            params: { id: handle.id, serverType: handle.type.id, attributes: { 'server.home.dir': wildflyRoot } }
+        };
+    }
+
+    describe('Fragmentation', () => {
+
+        it('frames split into single bytes are reassembled by the server and the client', async function() {
+            this.timeout(30000);
+            proxy.setFaults('upstream', { chunkSize: 1 });
+            proxy.setFaults('downstream', { chunkSize: 1 });
+
+            const types = await proxied.getServerTypes();
+
+            expect(types).deep.equals(await client.getServerTypes());
+            expect(proxy.frames.filter(frame => frame.writes > 1)).not.empty;
+        });
+
+        it('many concurrent requests in small chunks all get their own answers', async function() {
+            this.timeout(30000);
+            proxy.setFaults('upstream', { chunkSize: 7, chunkInterval: 1 });
+            proxy.setFaults('downstream', { chunkSize: 13 });
+
+            const beans = await Promise.all([1, 2, 3, 4, 5].map(() => proxied.findServerBeans(wildflyRoot)));
+            const paths = await Promise.all([1, 2, 3].map(() => proxied.getDiscoveryPaths()));
+
+            beans.forEach(result => expect(result).deep.equals(beans[0]));
+            expect(beans[0]).length(1);
+            paths.forEach(result => expect(result).empty);
+        });
+
+        it('a create request split into chunks creates the server once', async () => {
+            proxy.setFaults('upstream', { chunkSize: 5, chunkInterval: 2 });
+
+            const handle = await proxied.createServerSync(wildflyRoot, 'fragmented');
+
+            const handles = await client.getServerHandles();
+            expect(handles.filter(existing => existing.id === 'fragmented')).deep.equals([handle]);
+        });
+    });
+
+    describe('Delay and Reordering', () => {
+
+        it('delayed responses still resolve the right requests', async () => {
+            proxy.setFaults('downstream', { delay: 300 });
+
+            const start = Date.now();
+            const types = await proxied.getServerTypes();
+
+            expect(Date.now() - start).gte(300);
+            expect(types).deep.equals(await client.getServerTypes());
+        });
+
+        it('responses arriving in reverse order are matched to their requests', async () => {
+            proxy.setFaults('downstream', { reorderWindow: 3 });
+
+            const [paths, handles, types] = await Promise.all([
+                proxied.getDiscoveryPaths(), proxied.getServerHandles(), proxied.getServerTypes()]);
+
+            const responses = proxy.frames.filter(frame => frame.direction === 'downstream').map(frame => frame.message.id);
+            expect(responses).deep.equals(responses.slice().sort((a, b) => b - a));
+            expect(paths).empty;
+            expect(handles).empty;
+            expect(types).deep.equals(await client.getServerTypes());
+        });
+
+        it('independent requests arriving in reverse order are all handled', async () => {
+            proxy.setFaults('upstream', { reorderWindow: 2 });
+
+            const statuses = await Promise.all([
+                proxied.addDiscoveryPathAsync(wildflyRoot), proxied.addDiscoveryPathAsync(path.resolve('.'))]);
+
+            statuses.forEach(status => expect(status.severity).equals(0));
+            const paths = await client.getDiscoveryPaths();
+            expect(paths).deep.include.members([{ filepath: wildflyRoot }, { filepath: path.resolve('.') }]);
+        });
+    });
+
+    describe('Stalls', () => {
+
+        it('a stalled response resolves once traffic resumes', async () => {
+            proxy.stall('downstream');
+
+            const handles = proxied.getServerHandles();
+
+            expect(await isPending(handles, 500)).true;
+            proxy.resume('downstream');
+            expect(await handles).empty;
+        });
+
+        it('a client that stops reading does not hold up notifications to other clients', async () => {
+            proxy.stall('downstream');
+
+            const added = waitForNotification(client, 'discoveryPathAdded', param => param.filepath === wildflyRoot, 2000);
+            await client.addDiscoveryPathAsync(wildflyRoot);
+            await added;
+
+            expect(await client.getDiscoveryPaths()).deep.equals([{ filepath: wildflyRoot }]);
+            proxy.resume('downstream');
+        });
+    });
+
+    describe('Dropped Connections', () => {
+
+        it('a startServerAsync request cut off from its response still starts the server', async function() {
+            this.timeout(60000);
+            const handle = await client.createServerSync(wildflyRoot, 'inflight');
+            const started = waitForState(client, handle, ServerState.STARTED, 50000);
+
+            const dropped = proxy.dropAfter('server/startServerAsync');
+            proxied.startServerAsync(launchParameters(handle)).catch(() => undefined);
+            await dropped;
+
+            await started;
+            expect(await client.getServerHandles()).deep.include(handle);
+        });
+
+        it('the server keeps serving other clients after a connection drops mid-request', async () => {
+            // the request is written before the connection is cut, so the server still creates the server
+            const orphaned = waitForNotification(client, 'serverAdded', added => added.id === 'orphaned', 10000);
+            const dropped = proxy.dropAfter('server/createServer');
+            const beans = await proxied.findServerBeans(wildflyRoot);
+            proxied.createServerAsync(beans[0], 'orphaned').catch(() => undefined);
+            await dropped;
+            await orphaned;
+
+            const handle = await client.createServerSync(wildflyRoot, 'survivor');
+
+            const handles = await client.getServerHandles();
+            expect(handles).deep.include(handle);
+            expect(handles.filter(existing => existing.id === 'orphaned')).length(1);
+        });
+
+        it('notifications keep flowing after a client disconnected', async () => {
+            await proxied.getDiscoveryPaths();
+            proxy.dropAll();
+
+            const added = waitForNotification(client, 'discoveryPathAdded', param => param.filepath === wildflyRoot);
+            const removed = waitForNotification(client, 'discoveryPathRemoved', param => param.filepath === wildflyRoot);
+            await client.addDiscoveryPathSync(wildflyRoot);
+            await client.removeDiscoveryPathSync(wildflyRoot);
+
+            await added;
+            await removed;
+        });
+
+        it('the server accepts a new connection from a client that was cut off', async () => {
+            proxy.dropAll();
+
+            proxied = new RSPClient('localhost', proxy.port);
+            await proxied.connect();
+
+            expect(await proxied.getServerTypes()).deep.equals(await client.getServerTypes());
+        });
+    });
+});
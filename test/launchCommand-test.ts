@@ -0,0 +1,128 @@
+import * as chai from 'chai';
+import { RSPClient, Protocol } from 'rsp-client';
+import { getClient, getPort } from '../resources/fixture';
+import { RawRpcClient } from '../resources/raw-client';
+import { createRoot } from '../resources/installations';
+import { LaunchCommand, parseLaunchCommand, debugAgent } from '../resources/launch-command';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import 'mocha';
+
+const expect = chai.expect;
+
+describe('Launch Command', () => {
+
+    const wildflyRoot = path.resolve('./wildfly');
+
+    let client: RSPClient;
+    let handle: Protocol.ServerHandle;
+    let vmRoot: string;
+
+    before(async () => {
+        client = getClient();
+        handle = await client.createServerSync(wildflyRoot, 'launchCommand');
+
+        // the RSP only checks the layout of a VM install, the java binary never runs
+        vmRoot = path.join(createRoot('rsp-vm-'), 'jdk');
+        fs.ensureDirSync(path.join(vmRoot, 'bin'));
+        fs.writeFileSync(path.join(vmRoot, 'bin', 'java'), '#!/bin/sh\n', { mode: 0o755 });
+    });
+
+    after(async () => {
+        await client.deleteServerSync(handle);
+        fs.removeSync(path.dirname(vmRoot));
+    });
+
+    async function launchCommand(mode: string, attributes: { [key: string]: any } = {}): Promise<LaunchCommand> {
+        const details = await client.getServerLaunchCommand({
+            mode,
+            params: { id: handle.id, serverType: handle.type.id, attributes }
+        });
+        expect(details, `launch command for ${mode} mode`).not.null;
+        return parseLaunchCommand(details);
+    }
+
+    function isInside(root: string, file: string) {
+        const relative = path.relative(root, file);
+        return !relative.startsWith('..') && !path.isAbsolute(relative);
+    }
+
+    it('run mode launches jboss-modules from the installation', async () => {
+        const command = await launchCommand('run');
+
+        const modulesJar = path.join(wildflyRoot, 'jboss-modules.jar');
+        if (command.jar) {
+            expect(command.jar).equals(modulesJar);
+        } else {
+            expect(command.mainClass).equals('org.jboss.modules.Main');
+            expect(command.classpath).include(modulesJar);
+        }
+        expect(command.programArgs).include('org.jboss.as.standalone');
+        expect(command.java).matches(/java(\.exe)?$/);
+    });
+
+    it('run mode does not enable the debug agent', async () => {
+        const command = await launchCommand('run');
+
+        expect(debugAgent(command)).undefined;
+    });
+
+    it('debug mode adds a JDWP agent and otherwise matches run mode', async () => {
+        const run = await launchCommand('run');
+        const debug = await launchCommand('debug');
+
+        const agent = debugAgent(debug);
+        expect(agent).not.undefined;
+        expect(agent).contains('transport=dt_socket');
+        expect(agent).contains('server=y');
+        expect(debug.jvmArgs.filter(arg => arg !== agent)).deep.equals(run.jvmArgs);
+        expect(debug.systemProperties).deep.equals(run.systemProperties);
+        expect(debug.programArgs).deep.equals(run.programArgs);
+    });
+
+    it('server.home.dir is passed as jboss.home.dir', async () => {
+        const command = await launchCommand('run');
+
+        expect(command.systemProperties['jboss.home.dir']).equals(wildflyRoot);
+    });
+
+    it('vm.install.path selects the java executable', async () => {
+        // the attribute belongs to the server, launch parameters do not override it
+        const raw = await RawRpcClient.connect(getPort());
+        const withVm: Protocol.ServerHandle = { id: 'launchCommandVm', type: handle.type };
+        try {
+            const response = await raw.request('server/createServer', { id: withVm.id, serverType: handle.type.id,
+                attributes: { 'server.home.dir': wildflyRoot, 'vm.install.path': vmRoot } });
+            expect(response.result.severity, response.result.message).equals(0);
+
+            const details = await client.getServerLaunchCommand({
+                mode: 'run',
+                params: { id: withVm.id, serverType: handle.type.id, attributes: {} }
+            });
+            const command = parseLaunchCommand(details);
+            expect(path.dirname(command.java)).equals(path.join(vmRoot, 'bin'));
+            expect(path.basename(command.java)).matches(/^java(\.exe)?$/);
+        } finally {
+            await client.deleteServerAsync(withVm);
+            raw.close();
+        }
+    });
+
+    it('the working directory is inside the installation', async () => {
+        const run = await launchCommand('run');
+        const debug = await launchCommand('debug');
+
+        expect(isInside(wildflyRoot, run.workingDir), `${run.workingDir} inside ${wildflyRoot}`).true;
+        expect(debug.workingDir).equals(run.workingDir);
+    });
+
+    it('parsing reports an option missing its value instead of failing on it', () => {
+        const parse = (cmdLine: string[]) => () => parseLaunchCommand({ cmdLine, workingDir: '/', envp: [], properties: {} });
+
+        expect(parse(['java', '-Xmx512m', '-cp'])).throws('-cp is missing its value');
+        expect(parse(['java', '-jar'])).throws('-jar is missing its value');
+        expect(parse(['java', '--add-modules'])).throws('--add-modules is missing its value');
+        expect(parseLaunchCommand({ cmdLine: ['java', '-cp', 'a.jar:b.jar', 'Main', 'x'], workingDir: '/', envp: [], properties: {} }))
+            .include({ mainClass: 'Main' }).property('classpath').deep.equals(['a.jar', 'b.jar']);
+    });
+});
@@ -0,0 +1,109 @@
+import * as chai from 'chai';
+import { RSPClient } from 'rsp-client';
+import { getClient, resetServer } from '../resources/fixture';
+import { createRoot } from '../resources/installations';
+import { Command, ModelContext, LifecycleModel, random, generateSequence, runSequence, shrink, describeCommand, isValidSequence }
+    from '../resources/lifecycle-model';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import 'mocha';
+
+const expect = chai.expect;
+
+const runs = +(process.env.RSP_MODEL_RUNS || 10);
+const length = +(process.env.RSP_MODEL_LENGTH || 12);
+const seed = process.env.RSP_MODEL_SEED ? +process.env.RSP_MODEL_SEED : Math.floor(Math.random() * 0xffffffff);
+
+describe('Lifecycle Model', () => {
+
+    let client: RSPClient;
+    let root: string;
+    let context: ModelContext;
+
+    before(() => {
+        client = getClient();
+        root = createRoot('rsp-model-');
+        context = { wildflyRoot: path.resolve('./wildfly'), emptyRoot: path.join(root, 'empty'), pathRoot: path.join(root, 'paths') };
+        fs.ensureDirSync(context.emptyRoot);
+        ['path-a', 'path-b', 'path-c'].forEach(name => fs.ensureDirSync(path.join(context.pathRoot, name)));
+    });
+
+    after(() => {
+        fs.removeSync(root);
+    });
+
+    it(`random lifecycle sequences match the reference model (seed ${seed})`, async function() {
+        this.timeout(runs * length * 30000);
+        const next = random(seed);
+        for (let run = 0; run < runs; run++) {
+            const commands = generateSequence(next, length);
+            await resetServer();
+            const failure = await runSequence(client, commands, context);
+            if (!failure) {
+                continue;
+            }
+
+            const minimal = await shrink(commands.slice(0, failure.step + 1), async candidate => {
+                await resetServer();
+                return (await runSequence(client, candidate, context)) !== undefined;
+            });
+            await resetServer();
+            const minimalFailure = await runSequence(client, minimal, context);
+            throw new Error(`Run ${run + 1} with seed ${seed} disagreed with the model: ${failure.message}\n` +
+                `Minimal sequence:\n  ${minimal.map(describeCommand).join('\n  ')}\n` +
+                (minimalFailure ? `fails at step ${minimalFailure.step + 1}: ${minimalFailure.message}` : 'passed when repeated'));
+        }
+    });
+
+    it('shrink finds the minimal sequence reproducing a failure', async () => {
+        const commands: Command[] = [
+            { kind: 'addDiscoveryPath', name: 'path-a' },
+            { kind: 'createServer', id: 'model-a', location: 'wildfly' },
+            { kind: 'addDiscoveryPath', name: 'path-b' },
+            { kind: 'startServer', id: 'model-a' },
+            { kind: 'removeDiscoveryPath', name: 'path-a' },
+            { kind: 'stopServer', id: 'model-a', force: false }
+        ];
+        // fails whenever a started server is stopped
+        const fails = async (candidate: Command[]) => {
+            const model = new LifecycleModel();
+            return candidate.some(command => {
+                const stopsStarted = command.kind === 'stopServer' && model.servers.get(command.id) === 'started';
+                model.apply(command);
+                return stopsStarted;
+            });
+        };
+
+        const minimal = await shrink(commands, fails);
+        expect(minimal.map(describeCommand)).deep.equals([
+            'createServerAsync(wildfly, model-a)',
+            'startServerAsync(model-a)',
+            'stopServerAsync(model-a, force: false)'
+        ]);
+    });
+
+    it('generated sequences only contain commands the model allows', () => {
+        const next = random(seed);
+        for (let i = 0; i < 100; i++) {
+            expect(isValidSequence(generateSequence(next, length))).true;
+        }
+    });
+
+    it('generated sequences never run two servers at once', () => {
+        const next = random(seed);
+        for (let i = 0; i < 100; i++) {
+            const model = new LifecycleModel();
+            generateSequence(next, length).forEach(command => {
+                model.apply(command);
+                const started = Array.from(model.servers.values()).filter(state => state === 'started');
+                expect(started.length, describeCommand(command)).most(1);
+            });
+        }
+        const running = new LifecycleModel();
+        running.apply({ kind: 'createServer', id: 'model-a', location: 'wildfly' });
+        running.apply({ kind: 'createServer', id: 'model-b', location: 'wildfly' });
+        running.apply({ kind: 'startServer', id: 'model-a' });
+        expect(running.allows({ kind: 'startServer', id: 'model-b' }), 'second server').false;
+        expect(running.allows({ kind: 'startServer', id: 'model-a' }), 'the started server again').true;
+    });
+});
@@ -0,0 +1,178 @@
+import * as chai from 'chai';
+import { RSPClient } from 'rsp-client';
+import { ErrorCodes } from 'vscode-jsonrpc';
+import { getClient, getPort } from '../resources/fixture';
+import { RawRpcClient, RawMessage } from '../resources/raw-client';
+import * as path from 'path';
+import 'mocha';
+
+const expect = chai.expect;
+
+describe('Malformed Input', () => {
+
+    // servers may reject a param they cannot bind either while parsing or while validating
+    const invalidParamCodes = [ErrorCodes.InvalidParams, ErrorCodes.ParseError];
+    const hugeSize = 8 * 1024 * 1024;
+
+    let client: RSPClient;
+    let raw: RawRpcClient;
+
+    before(() => {
+        client = getClient();
+    });
+
+    beforeEach(async () => {
+        raw = await RawRpcClient.connect(getPort());
+    });
+
+    afterEach(() => {
+        raw.close();
+    });
+
+    function expectError(response: RawMessage, codes: number[]) {
+        expect(response.result, `result of ${JSON.stringify(response)}`).undefined;
+        expect(response.error, `error of ${JSON.stringify(response)}`).not.undefined;
+        expect(codes).include(response.error.code);
+    }
+
+    /**
+     * Asserts that a body which is not JSON got a parse error, without an id as none could be read
+     */
+    async function expectParseError(connection: RawRpcClient) {
+        expectError(await connection.waitForResponse(null), [ErrorCodes.ParseError]);
+    }
+
+    /**
+     * Asserts that a frame dropped for its headers got no answer, as no body was read for it, and
+     * that the connection stayed open
+     */
+    async function expectNoAnswer(connection: RawRpcClient) {
+        expect(await connection.receives(() => true, 500), `answered with ${JSON.stringify(connection.received)}`).false;
+        expect(connection.closed, 'connection closed').false;
+    }
+
+    /**
+     * Asserts that a connection still answers a valid request
+     */
+    async function expectServing(connection: RawRpcClient) {
+        const response = await connection.request('server/getDiscoveryPaths');
+        expect(response.error).undefined;
+        expect(response.result).an('array');
+    }
+
+    /**
+     * Asserts that the server still accepts new connections and answers the shared client
+     */
+    async function expectServerAlive() {
+        const fresh = await RawRpcClient.connect(getPort());
+        try {
+            await expectServing(fresh);
+        } finally {
+            fresh.close();
+        }
+        expect(await client.getServerHandles()).an('array');
+    }
+
+    it('a well-formed raw request is answered', async () => {
+        await expectServing(raw);
+    });
+
+    it('malformed JSON with a readable id gets a parse error', async () => {
+        raw.sendFrame('{"jsonrpc":"2.0","id":7,"method":"server/getDiscoveryPaths","params":{');
+
+        expectError(await raw.waitFor(message => message.error !== undefined), [ErrorCodes.ParseError]);
+        await expectServing(raw);
+    });
+
+    it('a body that is not JSON at all does not break the connection', async () => {
+        raw.sendFrame('this is not json');
+
+        await expectParseError(raw);
+        await expectServing(raw);
+    });
+
+    it('an unknown method gets a method not found error', async () => {
+        const response = await raw.request('server/doesNotExist', {});
+
+        expectError(response, [ErrorCodes.MethodNotFound]);
+        await expectServing(raw);
+    });
+
+    it('an unknown notification is ignored', async () => {
+        raw.sendFrame(JSON.stringify({ jsonrpc: '2.0', method: 'server/doesNotExist', params: {} }));
+
+        await expectServing(raw);
+        expect(raw.received.filter(message => message.error !== undefined)).empty;
+    });
+
+    it('a number instead of a ServerHandle is rejected', async () => {
+        const response = await raw.request('server/deleteServer', 42);
+
+        expectError(response, invalidParamCodes);
+        await expectServing(raw);
+    });
+
+    it('a string instead of a DiscoveryPath is rejected and adds nothing', async () => {
+        const response = await raw.request('server/addDiscoveryPath', path.resolve('.'));
+
+        expectError(response, invalidParamCodes);
+        expect(await client.getDiscoveryPaths()).empty;
+    });
+
+    it('a boolean instead of LaunchParameters is rejected', async () => {
+        const response = await raw.request('server/startServerAsync', true);
+
+        expectError(response, invalidParamCodes);
+        await expectServing(raw);
+    });
+
+    it('a frame without Content-Length does not bring the server down', async () => {
+        raw.sendFrame('{"jsonrpc":"2.0","id":1,"method":"server/getDiscoveryPaths"}',
+            { 'Content-Type': 'application/vscode-jsonrpc; charset=utf-8' });
+
+        await expectNoAnswer(raw);
+        await expectServerAlive();
+    });
+
+    it('a non-numeric Content-Length does not bring the server down', async () => {
+        raw.sendFrame('{"jsonrpc":"2.0","id":1,"method":"server/getDiscoveryPaths"}', { 'Content-Length': 'many' });
+
+        await expectNoAnswer(raw);
+        await expectServerAlive();
+    });
+
+    it('a Content-Length shorter than the body does not bring the server down', async () => {
+        raw.sendFrame('{"jsonrpc":"2.0","id":1,"method":"server/getDiscoveryPaths"}', { 'Content-Length': '10' });
+
+        // the first 10 characters are read as the body, which is not JSON
+        await expectParseError(raw);
+        await expectServerAlive();
+    });
+
+    it('a Content-Length longer than the body followed by a disconnect does not bring the server down', async () => {
+        raw.sendFrame('{"jsonrpc":"2.0","id":1,"method":"server/getDiscoveryPaths"}', { 'Content-Length': '100000' });
+        raw.close();
+
+        await expectServerAlive();
+    });
+
+    it('a huge request is answered and the connection keeps serving', async function() {
+        this.timeout(60000);
+        const filepath = '/' + 'a'.repeat(hugeSize);
+        const response = await raw.request('server/findServerBeans', { filepath }, 50000);
+
+        expect(response.error, JSON.stringify(response.error)).undefined;
+        expect(response.result).length(1);
+        expect(response.result[0].typeCategory).equals('UNKNOWN');
+        expect(response.result[0].location === filepath, 'location of the bean is the requested path').true;
+        await expectServing(raw);
+    });
+
+    it('a huge request to an unknown method gets a method not found error', async function() {
+        this.timeout(60000);
+        const response = await raw.request('server/doesNotExist', { payload: 'a'.repeat(hugeSize) }, 50000);
+
+        expectError(response, [ErrorCodes.MethodNotFound]);
+        await expectServing(raw);
+    });
+});
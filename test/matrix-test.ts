@@ -0,0 +1,69 @@
+import * as chai from 'chai';
+import * as Mocha from 'mocha';
+import { CombinationResult, compatibilityTable, formatTable, markdownTable } from '../resources/matrix';
+import MatrixReporter = require('../resources/matrix-reporter');
+import 'mocha';
+
+const expect = chai.expect;
+
+describe('Compatibility Matrix', () => {
+
+    const outcome = (method: string, state: MatrixReporter.TestOutcome['state']): MatrixReporter.TestOutcome =>
+        ({ suite: 'Server Model', title: `${method} works`, method, state });
+    const combination = (rspVersion: string, tests: MatrixReporter.TestOutcome[], hookErrors: string[] = []): CombinationResult =>
+        ({ rspVersion, runtime: 'wildfly-13', exitCode: hookErrors.length > 0 ? 1 : 0, results: { tests, hookErrors } });
+
+    const results = [
+        combination('0.0.8', [outcome('createServer', 'passed'), outcome('startServerAsync', 'failed'),
+            outcome('startServerAsync', 'passed'), outcome('getDiscoveryPaths', 'pending')]),
+        combination('0.0.9', [outcome('createServer', 'passed'), outcome('startServerAsync', 'passed')]),
+        combination('0.0.10', [], ['"before all" hook: the RSP did not start'])
+    ];
+
+    it('compatibilityTable condenses the outcomes into one cell per method and combination', () => {
+        const table = compatibilityTable(results);
+
+        expect(table.combinations).deep.equals(['0.0.8 / wildfly-13', '0.0.9 / wildfly-13', '0.0.10 / wildfly-13']);
+        expect(table.methods).deep.equals(['createServer', 'startServerAsync', 'getDiscoveryPaths']);
+        expect(table.cells).deep.equals([
+            ['pass', 'pass', 'error'],
+            ['FAIL 1/2', 'pass', 'error'],
+            ['skip', '-', 'error']
+        ]);
+    });
+
+    it('formatTable pads every column to its widest cell', () => {
+        expect(formatTable(compatibilityTable(results)).split('\n')).deep.equals([
+            'method             0.0.8 / wildfly-13  0.0.9 / wildfly-13  0.0.10 / wildfly-13',
+            '-----------------  ------------------  ------------------  -------------------',
+            'createServer       pass                pass                error              ',
+            'startServerAsync   FAIL 1/2            pass                error              ',
+            'getDiscoveryPaths  skip                -                   error              '
+        ]);
+    });
+
+    it('markdownTable renders a header, a separator and a row per method', () => {
+        expect(markdownTable(compatibilityTable(results))).equals([
+            '| method | 0.0.8 / wildfly-13 | 0.0.9 / wildfly-13 | 0.0.10 / wildfly-13 |',
+            '| --- | --- | --- | --- |',
+            '| createServer | pass | pass | error |',
+            '| startServerAsync | FAIL 1/2 | pass | error |',
+            '| getDiscoveryPaths | skip | - | error |',
+            ''
+        ].join('\n'));
+    });
+
+    it('methodOf takes the method from the title or else from the suites', () => {
+        const suite = Mocha.Suite.create(new Mocha.Suite('Server Launcher'), 'Starting Servers');
+        const test = (title: string) => {
+            const runnable = new Mocha.Test(title, () => undefined);
+            suite.addTest(runnable);
+            return runnable;
+        };
+
+        expect(MatrixReporter.methodOf(test('startServerAsync should start a valid server'))).equals('startServerAsync');
+        expect(MatrixReporter.methodOf(test('a client disconnecting does not disturb the others')))
+            .equals('Server Launcher > Starting Servers');
+        expect(MatrixReporter.methodOf(test('URL handling of discovery paths'))).equals('Server Launcher > Starting Servers');
+    });
+});
@@ -0,0 +1,185 @@
+import * as chai from 'chai';
+import { RSPClient, Protocol, ServerState } from 'rsp-client';
+import { getClient, getPort, resetServer } from '../resources/fixture';
+import { RawRpcClient } from '../resources/raw-client';
+import { recordNotifications, waitForState, expectStateSequence, captureProcess, StreamType } from '../resources/notifications';
+import { FakeMinishift } from '../resources/fake-minishift';
+import { createRoot } from '../resources/installations';
+import 'mocha';
+import * as fs from 'fs-extra';
+
+const expect = chai.expect;
+
+describe('Minishift Adapter', function() {
+    this.timeout(60000);
+
+    const minishiftType: Protocol.ServerType = {
+        id: 'org.jboss.tools.openshift.cdk.server.type.minishift.v1_12',
+        visibleName: 'Minishift 1.12+',
+        description: 'A server adapter capable of controlling a Minishift 1.12+ runtime instance.'
+    };
+
+    let client: RSPClient;
+    let raw: RawRpcClient;
+    let root: string;
+    let minishift: FakeMinishift;
+
+    before(async function() {
+        // the mock imitates the catalog only, it does not run the adapter
+        if (process.env.RSP_MOCK) {
+            this.skip();
+        }
+        client = getClient();
+        raw = await RawRpcClient.connect(getPort());
+        root = createRoot('rsp-minishift-');
+        minishift = new FakeMinishift(root);
+    });
+
+    after(() => {
+        if (raw) {
+            raw.close();
+            minishift.reset();
+            fs.removeSync(root);
+        }
+    });
+
+    afterEach(async function() {
+        this.timeout(30000);
+        await resetServer();
+        minishift.reset();
+    });
+
+    async function createServer(id: string, attributes: { [name: string]: any }): Promise<Protocol.Status> {
+        const response = await raw.request('server/createServer', { id, serverType: minishiftType.id, attributes });
+        expect(response.error, response.error && response.error.message).undefined;
+        return response.result;
+    }
+
+    async function createMinishift(id = 'cdk'): Promise<Protocol.ServerHandle> {
+        const status = await createServer(id, {
+            'server.home.file': minishift.file,
+            'minishift.vmdriver': 'kvm',
+            'minishift.profile': 'cdk'
+        });
+        expect(status.severity, status.message).equals(0);
+        return { id, type: minishiftType };
+    }
+
+    function launchParameters(handle: Protocol.ServerHandle): Protocol.LaunchParameters {
+        return { mode: 'run', params: { id: handle.id, serverType: handle.type.id, attributes: {} } };
+    }
+
+    it('findServerBeans recognizes the minishift binary', async () => {
+        const beans = await client.findServerBeans(minishift.file);
+
+        expect(beans).length(1);
+        expect(beans[0]).include({ location: minishift.file, typeCategory: 'MINISHIFT', serverAdapterTypeId: minishiftType.id });
+        expect(beans[0].fullVersion).equals('1.12.0');
+        expect(minishift.invocations()).deep.include(['version']);
+    });
+
+    it('getServerTypeRequiredAttributes asks for the minishift binary', async () => {
+        const required = await client.getServerTypeRequiredAttributes(minishiftType);
+        const optional = await client.getServerTypeOptionalAttributes(minishiftType);
+
+        expect(Object.keys(required.attributes)).deep.equals(['server.home.file']);
+        expect(required.attributes['server.home.file'].type).equals('string');
+        expect(optional.attributes).include.keys('minishift.vmdriver', 'minishift.profile');
+    });
+
+    it('createServer requires server.home.file', async () => {
+        const missing = await createServer('cdk-missing', { 'minishift.vmdriver': 'kvm' });
+        expect(missing.severity, 'without the binary').equals(4);
+
+        const handle = await createMinishift();
+        const handles = await client.getServerHandles();
+        expect(handles).deep.include(handle);
+    });
+
+    it('getServerLaunchCommand starts minishift with the vm driver and profile', async () => {
+        const handle = await createMinishift();
+
+        const details = await client.getServerLaunchCommand(launchParameters(handle));
+        expect(details.cmdLine[0]).equals(minishift.file);
+        expect(details.cmdLine[1]).equals('start');
+        const options = details.cmdLine.slice(2).join(' ');
+        expect(options).contains('--vm-driver kvm');
+        expect(options).contains('--profile cdk');
+    });
+
+    it('start and stop go through STARTING, STARTED, STOPPING and STOPPED', async () => {
+        const handle = await createMinishift();
+        const recording = recordNotifications(client);
+
+        try {
+            const started = waitForState(client, handle, ServerState.STARTED, 30000);
+            const response = await client.startServerAsync(launchParameters(handle));
+            expect(response.status.severity, response.status.message).equals(0);
+            await started;
+            expect(minishift.isRunning(), 'cluster running').true;
+
+            const stopped = waitForState(client, handle, ServerState.STOPPED, 30000);
+            const status = await client.stopServerAsync({ id: handle.id, force: false });
+            expect(status.severity, status.message).equals(0);
+            await stopped;
+        } finally {
+            recording.stop();
+        }
+
+        expectStateSequence(recording, handle, [ServerState.STARTING, ServerState.STARTED, ServerState.STOPPING, ServerState.STOPPED]);
+        expect(minishift.isRunning(), 'cluster running after the stop').false;
+        const commands = minishift.invocations();
+        expect(commands).deep.include(['start', '--vm-driver', 'kvm', '--profile', 'cdk']);
+        expect(commands.map(args => args[0])).include.members(['status', 'stop']);
+    });
+
+    it('a failing minishift start ends STOPPED with the error in the process output', async () => {
+        minishift.configure({ start: 'fail' });
+        const handle = await createMinishift();
+        const capture = captureProcess(client, handle);
+        const recording = recordNotifications(client);
+
+        try {
+            const stopped = waitForState(client, handle, ServerState.STOPPED, 30000);
+            await client.startServerAsync(launchParameters(handle));
+            await stopped;
+        } finally {
+            recording.stop();
+        }
+
+        expectStateSequence(recording, handle, [ServerState.STARTING, ServerState.STOPPED]);
+        await capture.waitForOutput(/Error starting the VM/, 5000, StreamType.SYSERR);
+        capture.stop();
+    });
+
+    it('a hanging minishift start stays STARTING until it is stopped forcibly', async () => {
+        minishift.configure({ start: 'hang' });
+        const handle = await createMinishift();
+
+        const starting = waitForState(client, handle, ServerState.STARTING, 10000);
+        await client.startServerAsync(launchParameters(handle));
+        await starting;
+        const started = await waitForState(client, handle, ServerState.STARTED, 2000).then(() => true, () => false);
+        expect(started, 'STARTED while minishift start hangs').false;
+
+        const change = await client.stopServerSync({ id: handle.id, force: true }, 10000);
+        expect(change.state).equals(ServerState.STOPPED);
+    });
+
+    it('a hanging minishift stop stays STOPPING until it is stopped forcibly', async () => {
+        minishift.configure({ stop: 'hang' });
+        const handle = await createMinishift();
+        const started = waitForState(client, handle, ServerState.STARTED, 30000);
+        await client.startServerAsync(launchParameters(handle));
+        await started;
+
+        const stopping = waitForState(client, handle, ServerState.STOPPING, 10000);
+        await client.stopServerAsync({ id: handle.id, force: false });
+        await stopping;
+        const stopped = await waitForState(client, handle, ServerState.STOPPED, 2000).then(() => true, () => false);
+        expect(stopped, 'STOPPED while minishift stop hangs').false;
+
+        const change = await client.stopServerSync({ id: handle.id, force: true }, 10000);
+        expect(change.state).equals(ServerState.STOPPED);
+    });
+});
@@ -0,0 +1,22 @@
+import * as chai from 'chai';
+import { MockRspServer } from '../resources/mock-server';
+import 'mocha';
+import * as net from 'net';
+
+const expect = chai.expect;
+
+describe('Mock Server', () => {
+
+    it('stop closes the connections of clients that stay connected', async () => {
+        const mock = new MockRspServer();
+        const port = await mock.start();
+        const socket = net.connect(port, 'localhost');
+        await new Promise(resolve => socket.once('connect', resolve));
+        const closed = new Promise(resolve => socket.once('close', resolve));
+
+        const stopped = mock.stop().then(() => true);
+        const timeout = new Promise<boolean>(resolve => setTimeout(() => resolve(false), 1000));
+        expect(await Promise.race([stopped, timeout]), 'stopped while a client is connected').true;
+        await closed;
+    });
+});
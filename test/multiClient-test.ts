@@ -0,0 +1,107 @@
+import * as chai from 'chai';
+import { RSPClient, Protocol, ServerState } from 'rsp-client';
+import { getClient, getPort, resetServer } from '../resources/fixture';
+import { waitForNotification, waitForState } from '../resources/notifications';
+import * as path from 'path';
+import 'mocha';
+
+const expect = chai.expect;
+
+describe('Multiple Clients', () => {
+
+    const clientCount = 3;
+    const wildflyRoot = path.resolve('./wildfly');
+
+    let clients: RSPClient[];
+
+    beforeEach(async () => {
+        clients = [getClient()];
+        for (let i = 1; i < clientCount; i++) {
+            const client = new RSPClient('localhost', getPort());
+            await client.connect();
+            // connect resolves once the socket is open, a round trip makes sure the server registered the client
+            await client.getDiscoveryPaths();
+            clients.push(client);
+        }
+    });
+
+    afterEach(async function() {
+        this.timeout(30000);
+        clients.slice(1).filter(client => client !== null).forEach(client => client.disconnect());
+        await resetServer();
+    });
+
+    it('discoveryPathAdded reaches every client', async () => {
+        const notifications = clients.map(client =>
+            waitForNotification(client, 'discoveryPathAdded', param => param.filepath === wildflyRoot));
+
+        await clients[1].addDiscoveryPathAsync(wildflyRoot);
+
+        const received = await Promise.all(notifications);
+        received.forEach(param => expect(param).deep.equals({ filepath: wildflyRoot }));
+    });
+
+    it('discoveryPathRemoved reaches every client', async () => {
+        await clients[0].addDiscoveryPathSync(wildflyRoot);
+        const notifications = clients.map(client =>
+            waitForNotification(client, 'discoveryPathRemoved', param => param.filepath === wildflyRoot));
+
+        await clients[2].removeDiscoveryPathAsync(wildflyRoot);
+
+        const received = await Promise.all(notifications);
+        received.forEach(param => expect(param).deep.equals({ filepath: wildflyRoot }));
+    });
+
+    it('serverAdded and serverRemoved reach every client', async () => {
+        const added = clients.map(client => waitForNotification(client, 'serverAdded', handle => handle.id === 'shared'));
+        const handle = await clients[1].createServerSync(wildflyRoot, 'shared');
+        (await Promise.all(added)).forEach(param => expect(param).deep.equals(handle));
+
+        const removed = clients.map(client => waitForNotification(client, 'serverRemoved', param => param.id === 'shared'));
+        await clients[2].deleteServerAsync(handle);
+        (await Promise.all(removed)).forEach(param => expect(param).deep.equals(handle));
+    });
+
+    it('serverStateChange reaches every client', async function() {
+        this.timeout(60000);
+        const handle = await clients[0].createServerSync(wildflyRoot, 'observed');
+        const params: Protocol.LaunchParameters = {
+            mode: 'run',
+            params: { id: handle.id, serverType: handle.type.id, attributes: { 'server.home.dir': wildflyRoot } }
+        };
+
+        const started = clients.map(client => waitForState(client, handle, ServerState.STARTED, 50000));
+        await clients[1].startServerAsync(params);
+        await Promise.all(started);
+
+        const stopped = clients.map(client => waitForState(client, handle, ServerState.STOPPED, 5000));
+        await clients[2].stopServerAsync({ id: handle.id, force: true });
+        await Promise.all(stopped);
+    });
+
+    it('a client disconnecting does not disturb the others', async () => {
+        clients[1].disconnect();
+        clients[1] = null;
+
+        const remaining = clients.filter(client => client !== null);
+        const notifications = remaining.map(client =>
+            waitForNotification(client, 'discoveryPathAdded', param => param.filepath === wildflyRoot));
+        await remaining[0].addDiscoveryPathAsync(wildflyRoot);
+        await Promise.all(notifications);
+
+        for (const client of remaining) {
+            expect(await client.getDiscoveryPaths()).deep.include({ filepath: wildflyRoot });
+        }
+    });
+
+    it('concurrent createServerAsync calls with the same id create exactly one server', async () => {
+        const beans = await clients[0].findServerBeans(wildflyRoot);
+
+        const statuses = await Promise.all(clients.map(client => client.createServerAsync(beans[0], 'contested')));
+
+        expect(statuses.filter(status => status.severity === 0)).length(1);
+        expect(statuses.filter(status => status.severity > 0)).length(clientCount - 1);
+        const handles = await clients[0].getServerHandles();
+        expect(handles.filter(handle => handle.id === 'contested')).length(1);
+    });
+});
@@ -0,0 +1,93 @@
+import * as chai from 'chai';
+import { RSPClient, Protocol } from 'rsp-client';
+import { getClient, getHarness, isOwnServer, restartServer, resetServer } from '../resources/fixture';
+import * as path from 'path';
+import 'mocha';
+
+const expect = chai.expect;
+
+describe('Persistence', () => {
+
+    let client: RSPClient;
+    const wildflyRoot = path.resolve('./wildfly');
+
+    before(function() {
+        if (!isOwnServer()) {
+            this.skip();
+        }
+        client = getClient();
+    });
+
+    afterEach(async function() {
+        this.timeout(30000);
+        await resetServer();
+    });
+
+    async function restart() {
+        client = await restartServer();
+    }
+
+    async function launchCommand(handle: Protocol.ServerHandle): Promise<Protocol.CommandLineDetails> {
+        return client.getServerLaunchCommand({
+            mode: 'run',
+            params: { id: handle.id, serverType: handle.type.id, attributes: {} }
+        });
+    }
+
+    it('the server keeps its data in an isolated user home', () => {
+        const home = getHarness().options.userHome;
+
+        expect(home).not.equals(process.env.HOME);
+        expect(getHarness().dataDir.startsWith(home)).true;
+    });
+
+    it('created servers survive a restart with the same handles', async function() {
+        this.timeout(120000);
+        const handle1 = await client.createServerSync(wildflyRoot, 'persisted1');
+        const handle2 = await client.createServerSync(wildflyRoot, 'persisted2');
+
+        await restart();
+
+        const handles = await client.getServerHandles();
+        expect(handles).deep.include(handle1);
+        expect(handles).deep.include(handle2);
+        expect(handles).length(2);
+    });
+
+    it('created servers keep their attributes after a restart', async function() {
+        this.timeout(120000);
+        const handle = await client.createServerSync(wildflyRoot, 'persisted3');
+        const before = await launchCommand(handle);
+
+        await restart();
+
+        const after = await launchCommand(handle);
+        expect(after.cmdLine).contains(`-Djboss.home.dir=${wildflyRoot}`);
+        expect(after).deep.equals(before);
+    });
+
+    it('discovery paths survive a restart', async function() {
+        this.timeout(120000);
+        const path1 = await client.addDiscoveryPathSync(wildflyRoot);
+        const path2 = await client.addDiscoveryPathSync(path.resolve('.'));
+
+        await restart();
+
+        const paths = await client.getDiscoveryPaths();
+        expect(paths).deep.include.members([path1, path2]);
+        expect(paths).length(2);
+    });
+
+    it('deleted servers and removed discovery paths stay gone after a restart', async function() {
+        this.timeout(120000);
+        const handle = await client.createServerSync(wildflyRoot, 'persisted4');
+        const discoveryPath = await client.addDiscoveryPathSync(wildflyRoot);
+        await client.deleteServerSync(handle);
+        await client.removeDiscoveryPathSync(discoveryPath);
+
+        await restart();
+
+        expect(await client.getServerHandles()).not.deep.include(handle);
+        expect(await client.getDiscoveryPaths()).not.deep.include(discoveryPath);
+    });
+});
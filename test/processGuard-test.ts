@@ -0,0 +1,91 @@
+import * as chai from 'chai';
+import { ProcessGuard, listProcesses, readRegistry } from '../resources/process-guard';
+import 'mocha';
+import * as cp from 'child_process';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+const expect = chai.expect;
+
+describe('Process Guard', function() {
+    this.timeout(20000);
+
+    let child: cp.ChildProcess;
+    let exited: Promise<void>;
+
+    beforeEach(() => {
+        // idles with the marker of a WildFly command line
+        child = cp.spawn(process.execPath, ['-e', 'setInterval(() => undefined, 1000)', '--', '-Djboss.home.dir=/opt/wildfly']);
+        exited = new Promise<void>(resolve => child.on('exit', () => resolve()));
+    });
+
+    afterEach(async () => {
+        child.kill('SIGKILL');
+        await exited;
+    });
+
+    it('attributes a WildFly process to the test it was first seen in', () => {
+        const guard = new ProcessGuard();
+        const found = guard.scan('Suite > starts WildFly');
+
+        expect(found.map(tracked => tracked.pid)).deep.equals([child.pid]);
+        expect(found[0]).include({ kind: 'wildfly', owner: 'Suite > starts WildFly' });
+        expect(guard.scan('Suite > later test'), 'already tracked').empty;
+        expect(guard.alive('wildfly').map(tracked => tracked.pid)).deep.equals([child.pid]);
+    });
+
+    it('fails a suite that leaves WildFly running and kills it', async () => {
+        const guard = new ProcessGuard();
+        guard.scan('Suite > starts WildFly');
+
+        const error = await guard.checkNoWildfly('Suite', 500).then(() => undefined, (err: Error) => err);
+        expect(error, 'leak reported').instanceOf(Error);
+        expect(error.message).contains(`pid ${child.pid} started in "Suite > starts WildFly"`);
+        await exited;
+        expect(guard.alive()).empty;
+    });
+
+    it('passes once the WildFly processes exited within the timeout', async () => {
+        const guard = new ProcessGuard();
+        guard.scan('Suite > starts WildFly');
+        setTimeout(() => child.kill(), 200);
+
+        await guard.checkNoWildfly('Suite', 5000);
+        expect(listProcesses().map(info => info.pid)).not.include(child.pid);
+    });
+
+    it('picks up orphaned WildFly processes of the test installations only', () => {
+        // the shell exits right away, its background children are re-parented to init
+        const orphan = (home: string) => +cp.execFileSync('sh', ['-c',
+            '"$0" -e "setInterval(() => undefined, 1000)" -- "-Djboss.home.dir=$1" > /dev/null 2>&1 & echo $!',
+            process.execPath, home], { encoding: 'utf8' }).trim();
+        const testHome = orphan(path.join(os.tmpdir(), 'wildfly-13.0.0.Final'));
+        const otherHome = orphan('/opt/wildfly-orphan');
+        try {
+            const pids = new ProcessGuard().scan('Suite > loses its RSP').map(tracked => tracked.pid);
+
+            expect(pids).include(testHome);
+            expect(pids).include(child.pid);
+            expect(pids, 'orphan of an installation the tests do not use').not.include(otherHome);
+        } finally {
+            process.kill(testHome, 'SIGKILL');
+            process.kill(otherHome, 'SIGKILL');
+        }
+    });
+
+    it('lists tracked processes in its registry', () => {
+        const registryFile = path.join(os.tmpdir(), `rsp-registry-${process.pid}.json`);
+        try {
+            const guard = new ProcessGuard(registryFile);
+            guard.scan('Suite > starts WildFly');
+
+            const registry = readRegistry(registryFile);
+            expect(registry.processes).length(1);
+            expect(registry.processes[0].pid).equals(child.pid);
+            expect(registry.processes[0].command).contains('-Djboss.home.dir=/opt/wildfly');
+        } finally {
+            fs.removeSync(registryFile);
+        }
+    });
+});
@@ -0,0 +1,61 @@
+import * as chai from 'chai';
+import { parseArguments, resolveRuntime, resolveSuite, mochaArguments, strayProcesses, recordedProcesses } from '../resources/rsp-itest';
+import 'mocha';
+import * as path from 'path';
+
+const expect = chai.expect;
+
+describe('rsp-itest', () => {
+
+    it('parses the command, repeated options and flags', () => {
+        const args = parseArguments(['run', '--suite', 'serverModel', '--mock', '--suite=discovery', '--grep', 'createServer']);
+
+        expect(args.command).equals('run');
+        expect(args.options).deep.equals({ suite: ['serverModel', 'discovery'], mock: ['true'], grep: ['createServer'] });
+        expect(() => parseArguments(['run', '--grep']), 'missing value').throws('--grep');
+    });
+
+    it('resolves suites by name and runtimes by label', () => {
+        expect(resolveSuite('serverModel')).equals(path.join('test', 'serverModel-test.ts'));
+        expect(resolveSuite('test/discovery-test.ts')).equals('test/discovery-test.ts');
+        expect(() => resolveSuite('noSuchSuite')).throws('serverModel');
+
+        expect(resolveRuntime('wildfly-12.0.0.Final')).include({ version: '12.0.0.Final', visibleName: 'WildFly 12.x' });
+        expect(resolveRuntime('{"name":"eap","version":"7.1"}')).include({ name: 'eap' });
+        expect(() => resolveRuntime('wildfly-1.0')).throws('wildfly-13.0.0.Final');
+    });
+
+    it('runs the fixture with the selected suites, grep and reporter', () => {
+        const args = mochaArguments(parseArguments(['run', '--suite', 'discovery', '--grep', 'paths', '--reporter', 'dot']));
+
+        expect(args.slice(3)).deep.equals(['--file', 'resources/fixture.ts', '--grep', 'paths', '--reporter', 'dot',
+            path.join('test', 'discovery-test.ts')]);
+        expect(mochaArguments(parseArguments(['run'])).slice(-1)).deep.equals(['test/**/*test.ts']);
+    });
+
+    it('only treats harness RSP servers and test WildFly processes as stray', () => {
+        const processes = [
+            { pid: 101, command: 'java -Duser.home=/tmp/rsp-home-abc123 -jar bin/felix.jar' },
+            { pid: 102, command: 'java -Duser.home=/home/user -jar bin/felix.jar' },
+            { pid: 103, command: 'java -Djboss.home.dir=/work/wildfly -jar /work/wildfly/jboss-modules.jar' },
+            { pid: 104, command: 'java -Djboss.home.dir=/opt/wildfly -jar /opt/wildfly/jboss-modules.jar' },
+            { pid: 105, command: 'java -Djboss.home.dir=/tmp/rsp-installations-1/wildfly-13 -jar jboss-modules.jar' }
+        ];
+
+        expect(strayProcesses(processes, '/work', '/tmp').map(info => info.pid)).deep.equals([101, 103, 105]);
+    });
+
+    it('only cleans recorded processes still running the recorded command', () => {
+        const processes = [
+            { pid: 101, command: 'java -Duser.home=/tmp/rsp-home-abc123 -jar bin/felix.jar' },
+            { pid: 102, command: 'java -Duser.home=/tmp/rsp-home-def456 -jar bin/felix.jar' },
+            { pid: 103, command: 'vim notes.txt' }
+        ];
+        const registry = { homes: [], processes: [
+            { pid: 101, command: 'java -Duser.home=/tmp/rsp-home-abc123 -jar bin/felix.jar' },
+            { pid: 103, command: 'java -Djboss.home.dir=/work/wildfly -jar /work/wildfly/jboss-modules.jar' }
+        ] };
+
+        expect(recordedProcesses(processes, registry).map(info => info.pid)).deep.equals([101]);
+    });
+});
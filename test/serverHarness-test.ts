@@ -0,0 +1,101 @@
+import * as chai from 'chai';
+import { RspServerHarness } from '../resources/server-util';
+import { createRoot } from '../resources/installations';
+import 'mocha';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+const expect = chai.expect;
+
+describe('Server Harness', function() {
+    this.timeout(20000);
+
+    let root: string;
+    let harness: RspServerHarness;
+
+    beforeEach(() => {
+        root = createRoot('rsp-harness-');
+    });
+
+    afterEach(async () => {
+        if (harness) {
+            await harness.stop();
+            harness.removeHome();
+            harness = undefined;
+        }
+        fs.removeSync(root);
+    });
+
+    /**
+     * Creates a harness whose java is a shell script running the given lines in the server root
+     */
+    function fakeJava(lines: string[], options: { startTimeout?: number, stopTimeout?: number } = {}): RspServerHarness {
+        const javaHome = path.join(root, 'java');
+        fs.outputFileSync(path.join(javaHome, 'bin', 'java'), ['#!/bin/sh', ...lines, ''].join('\n'), { mode: 0o755 });
+        fs.ensureDirSync(path.join(root, 'server'));
+        harness = new RspServerHarness(Object.assign({ javaHome, mock: false, serverRoot: path.join(root, 'server') }, options));
+        return harness;
+    }
+
+    async function rejection(promise: Promise<any>): Promise<Error> {
+        return promise.then(() => { throw new Error('expected a rejection'); }, (err: Error) => err);
+    }
+
+    function running(pid: number): boolean {
+        try {
+            process.kill(pid, 0);
+            return true;
+        } catch (err) {
+            return false;
+        }
+    }
+
+    it('resolves with the port the server announces', async () => {
+        const server = fakeJava(['echo "Booting"', 'echo "RSP server listening on port 27511"', 'exec sleep 30']);
+
+        expect(await server.start()).equals(27511);
+        expect(server.port).equals(27511);
+        expect(server.getOutput()).contains('Booting');
+    });
+
+    it('rejects with the collected output when the process exits before announcing its port', async () => {
+        const server = fakeJava(['echo "Booting"', 'echo "felix.jar not found" >&2', 'exit 3']);
+
+        const error = await rejection(server.start());
+        expect(error.message).contains('exited with code 3 before announcing its port');
+        expect(error.message).contains('Booting');
+        expect(error.message).contains('felix.jar not found');
+    });
+
+    it('rejects with the collected output when the port is not announced in time', async () => {
+        const server = fakeJava(['echo "Booting"', 'exec sleep 30'], { startTimeout: 500 });
+
+        const error = await rejection(server.start());
+        expect(error.message).contains('did not announce its port within 500 ms');
+        expect(error.message).contains('Booting');
+    });
+
+    it('stop kills a process that ignores SIGTERM and waits for it to exit', async () => {
+        const server = fakeJava([
+            'trap "" TERM',
+            'echo $$ > pid',
+            'echo "RSP server listening on port 27511"',
+            'while true; do sleep 0.1; done'
+        ], { stopTimeout: 500 });
+        await server.start();
+        const pid = +fs.readFileSync(path.join(root, 'server', 'pid'), 'utf8');
+
+        const stopping = Date.now();
+        await server.stop();
+        expect(Date.now() - stopping, 'escalated after the stop timeout').gte(500);
+        expect(running(pid), 'running').false;
+        expect(server.port).undefined;
+    });
+
+    it('download skips the distribution when running the mock server', async () => {
+        harness = new RspServerHarness({ mock: true, serverRoot: path.join(root, 'server') });
+
+        await harness.download();
+        expect(fs.existsSync(path.join(root, 'server')), 'extracted').false;
+    });
+});
@@ -1,6 +1,8 @@
 import * as chai from 'chai';
 import { RSPClient, Protocol, ServerState } from 'rsp-client';
-import * as server from '../resources/server-util';
+import { getClient } from '../resources/fixture';
+import { recordNotifications, waitForState, expectStateSequence } from '../resources/notifications';
+import { runtimeServerType } from '../resources/runtime';
 import 'mocha';
 import * as path from 'path';
 
@@ -8,34 +10,13 @@ const expect = chai.expect;
 
 describe('Server Launcher', () => {
 
-    const serverType: Protocol.ServerType = {
-        description: 'servertype',
-        id: 'org.jboss.ide.eclipse.as.wildfly.130',
-        visibleName: 'WildFly 13.x'
-    };
+    const serverType = runtimeServerType();
     const wildflyRoot = path.resolve('./wildfly');
 
     let client: RSPClient;
-    let port: number;
-
-    before(function(done) {
-        this.timeout(300000);
-        server.clearData();
-        server.download()
-        .then(() => { return server.getWildfly(); })
-        .then(() => { return server.start(); })
-        .then(async (result) => {
-            port = result;
-            client = new RSPClient('localhost', port);
-            await client.connect();
-            done();
-        });
-    });
 
-    after(() => {
-        client.disconnect();
-        server.stop();
-        server.clearData();
+    before(() => {
+        client = getClient();
     });
 
     it('getLaunchModes returns a list of launch modes for a server type', async () => {
@@ -63,7 +44,7 @@ describe('Server Launcher', () => {
 
     it('getRequiredLaunchAttributes returns attributes object for a valid input', async () => {
         const launchAttr: Protocol.LaunchAttributesRequest = {
-            serverTypeId: serverType.id,
+            id: serverType.id,
             mode: 'run'
         };
         const attrs = await client.getServerRequiredLaunchAttributes(launchAttr);
@@ -73,7 +54,7 @@ describe('Server Launcher', () => {
 
     it('getRequiredLaunchAttributes handles invalid values', async () => {
         const launchAttr: Protocol.LaunchAttributesRequest = {
-            serverTypeId: 'foo',
+            id: 'foo',
             mode: 'run'
         };
         const attrs = await client.getServerRequiredLaunchAttributes(launchAttr);
@@ -82,7 +63,7 @@ describe('Server Launcher', () => {
 
     it('getOptionalLaunchAttributes returns attributes object for a valid input', async () => {
         const launchAttr: Protocol.LaunchAttributesRequest = {
-            serverTypeId: serverType.id,
+            id: serverType.id,
             mode: 'run'
         };
         const attrs = await client.getServerOptionalLaunchAttributes(launchAttr);
@@ -92,7 +73,7 @@ describe('Server Launcher', () => {
 
     it('getOptionalLaunchAttributes handles invalid values', async () => {
         const launchAttr: Protocol.LaunchAttributesRequest = {
-            serverTypeId: 'foo',
+            id: 'foo',
             mode: 'run'
         };
         const attrs = await client.getServerOptionalLaunchAttributes(launchAttr);
@@ -251,26 +232,41 @@ describe('Server Launcher', () => {
             await client.deleteServerSync(handle);
         });
 
-        it('startServerAsync should start a valid server', function(done) {
+        it('startServerAsync should start a valid server', async function() {
             this.timeout(6000);
             stop = true;
-            async function testit() {
-                const listener = (param: Protocol.ServerStateChange) => {
-                    if (param.server.id != handle.id) {
-                        return;
-                    }
-                    if (param.state === ServerState.STARTED) {
-                        client.removeListener('serverStateChange', listener);
-                        done();
-                    }
-                };
-                client.onServerStateChange(listener);
-        
+            const recording = recordNotifications(client);
+            const started = waitForState(client, handle, ServerState.STARTED, 5000);
+
+            try {
                 const result = await client.startServerAsync(params);
                 expect(result.status.severity).equals(0);
                 expect(result.status.message).equals('ok');
+
+                await started;
+            } finally {
+                recording.stop();
+            }
+            expectStateSequence(recording, handle, [ServerState.STARTING, ServerState.STARTED]);
+        });
+
+        it('startServerAsync and stopServerAsync should go through all states in order', async function() {
+            this.timeout(15000);
+            const recording = recordNotifications(client);
+            try {
+                const started = waitForState(client, handle, ServerState.STARTED, 7000);
+                await client.startServerAsync(params);
+                await started;
+
+                const stopped = waitForState(client, handle, ServerState.STOPPED, 7000);
+                const result = await client.stopServerAsync({ id: handle.id, force: true });
+                expect(result.severity).equals(0);
+                await stopped;
+            } finally {
+                recording.stop();
             }
-            testit();
+            expectStateSequence(recording, handle,
+                [ServerState.STARTING, ServerState.STARTED, ServerState.STOPPING, ServerState.STOPPED]);
         });
 
         it('startServerAsync should handle an invalid server', async () => {
@@ -302,41 +298,32 @@ describe('Server Launcher', () => {
             await client.deleteServerSync(handle);
         });
 
-        it('stopServerAsync should stop a running server', function(done) {
+        it('stopServerAsync should stop a running server', async function() {
             this.timeout(8000);
-            let stopped = false;
-            async function testit() {
-                const params: Protocol.LaunchParameters = {
-                    mode: 'run',
-                    params: {
-                        id: handle.id,
-                        serverType: handle.type.id,
-                        attributes: {
-                            'server.home.dir': wildflyRoot
-                        }
+            const params: Protocol.LaunchParameters = {
+                mode: 'run',
+                params: {
+                    id: handle.id,
+                    serverType: handle.type.id,
+                    attributes: {
+                        'server.home.dir': wildflyRoot
                     }
-                };
-                await client.startServerSync(params);
+                }
+            };
+            await client.startServerSync(params);
+            const recording = recordNotifications(client);
+            const stopped = waitForState(client, handle, ServerState.STOPPED, 7000);
 
-                const listener = (param: Protocol.ServerStateChange) => {
-                    if (param.server.id != handle.id) {
-                        return;
-                    }
-                    if (param.state === ServerState.STOPPED) {
-                        if (!stopped) {
-                            stopped = true;
-                            client.removeListener('serverStateChange', listener);
-                            done();
-                        }
-                    }
-                };
-                client.onServerStateChange(listener);
-        
+            try {
                 const result = await client.stopServerAsync({ id: handle.id, force: true });
                 expect(result.severity).equals(0);
                 expect(result.message).equals('ok');
+
+                await stopped;
+            } finally {
+                recording.stop();
             }
-            testit();
+            expectStateSequence(recording, handle, [ServerState.STOPPING, ServerState.STOPPED]);
         });
 
         it('stopServerAsync should handle stopping a stopped server', async () => {
@@ -1,6 +1,7 @@
 import * as chai from 'chai';
 import { RSPClient, Protocol } from 'rsp-client';
-import * as server from '../resources/server-util';
+import { getClient } from '../resources/fixture';
+import { runtimeServerType } from '../resources/runtime';
 import * as path from 'path';
 import 'mocha';
 
@@ -9,85 +10,39 @@ const expect = chai.expect;
 describe('Server Model', () => {
 
     let client: RSPClient;
-    let port: number;
 
     const wildflyRoot = path.resolve('./wildfly');
+    const runtimeType = runtimeServerType();
 
-    before(function(done) {
-        this.timeout(300000);
-        server.clearData();
-        server.download()
-        .then(() => { return server.getWildfly(); })
-        .then(() => { return server.start(); })
-        .then(async (result) => {
-            port = result;
-            client = new RSPClient('localhost', port);
-            await client.connect();
-            done();
-        });
-    });
-
-    after(() => {
-        client.disconnect();
-        server.stop();
-        server.clearData();
+    before(() => {
+        client = getClient();
     });
 
+    // names and descriptions are compared with the catalog snapshot, see catalogSnapshot-test.ts
     it('wildfly servers should be supported', async () => {
-        const serverTypes = await client.getServerTypes();
-        
-        expect(serverTypes).deep.include({ id: 'org.jboss.ide.eclipse.as.wildfly.100',
-        visibleName: 'WildFly 10.x',
-        description: 'A server adapter capable of discovering and controlling a WildFly 10.x runtime instance.' });
-        expect(serverTypes).deep.include({ id: 'org.jboss.ide.eclipse.as.wildfly.110',
-        visibleName: 'WildFly 11.x',
-        description: 'A server adapter capable of discovering and controlling a WildFly 11.x runtime instance.' });
-        expect(serverTypes).deep.include({ id: 'org.jboss.ide.eclipse.as.wildfly.120',
-        visibleName: 'WildFly 12.x',
-        description: 'A server adapter capable of discovering and controlling a WildFly 12.x runtime instance.' });
-        expect(serverTypes).deep.include({ id: 'org.jboss.ide.eclipse.as.wildfly.130',
-        visibleName: 'WildFly 13.x',
-        description: 'A server adapter capable of discovering and controlling a WildFly 13.x runtime instance.' });
+        const ids = (await client.getServerTypes()).map(type => type.id);
+
+        expect(ids).include.members(['org.jboss.ide.eclipse.as.wildfly.100', 'org.jboss.ide.eclipse.as.wildfly.110',
+            'org.jboss.ide.eclipse.as.wildfly.120', 'org.jboss.ide.eclipse.as.wildfly.130']);
     });
 
     it('EAP servers should be supported', async () => {
-        const serverTypes = await client.getServerTypes();
-
-        expect(serverTypes).deep.include({ id: 'org.jboss.ide.eclipse.as.eap.60',
-        visibleName: 'JBoss EAP 6.0',
-        description: 'A server adapter capable of discovering and controlling a JBoss EAP 6.0 runtime instance.' });
-        expect(serverTypes).deep.include({ id: 'org.jboss.ide.eclipse.as.eap.61',
-        visibleName: 'JBoss EAP 6.1',
-        description: 'A server adapter capable of discovering and controlling a JBoss EAP 6.1 runtime instance.' });
-        expect(serverTypes).deep.include({ id: 'org.jboss.ide.eclipse.as.eap.70',
-        visibleName: 'JBoss EAP 7.0',
-        description: 'A server adapter capable of discovering and controlling a JBoss EAP 7.0 runtime instance.' });
-        expect(serverTypes).deep.include({ id: 'org.jboss.ide.eclipse.as.eap.71',
-        visibleName: 'JBoss EAP 7.1',
-        description: 'A server adapter capable of discovering and controlling a JBoss EAP 7.1 runtime instance.' });
+        const ids = (await client.getServerTypes()).map(type => type.id);
+
+        expect(ids).include.members(['org.jboss.ide.eclipse.as.eap.60', 'org.jboss.ide.eclipse.as.eap.61',
+            'org.jboss.ide.eclipse.as.eap.70', 'org.jboss.ide.eclipse.as.eap.71']);
     });
 
     it('Minishift should be supported', async () => {
-        const serverTypes = await client.getServerTypes();
+        const ids = (await client.getServerTypes()).map(type => type.id);
 
-        expect(serverTypes).deep.include({ id: 'org.jboss.tools.openshift.cdk.server.type.minishift.v1_12',
-        visibleName: 'Minishift 1.12+',
-        description: 'A server adapter capable of controlling a Minishift 1.12+ runtime instance.' });
+        expect(ids).include('org.jboss.tools.openshift.cdk.server.type.minishift.v1_12');
     });
 
     it('getRequiredAttributes returns required attributes for a valid server type', async () => {
-        const type: Protocol.ServerType = {
-            id: 'org.jboss.ide.eclipse.as.wildfly.130',
-            description: 'A server adapter capable of discovering and controlling a WildFly 13.x runtime instance.',
-            visibleName: 'WildFly 13.x'
-        };
-
-        const attrs = await client.getServerTypeRequiredAttributes(type);
-        expect(attrs).deep.equals(
-            { attributes: { 'server.home.dir': {
-                type: 'string',
-                description: 'A filesystem path pointing to a server installation\'s root directory' }
-            } });
+        const attrs = await client.getServerTypeRequiredAttributes(runtimeType);
+        expect(Object.keys(attrs.attributes)).deep.equals(['server.home.dir']);
+        expect(attrs.attributes['server.home.dir'].type).equals('string');
     });
 
     it('getRequiredAttributes handles unsupported types', async () => {
@@ -107,18 +62,9 @@ describe('Server Model', () => {
     });
 
     it('getOptionalAttributes returns required attributes for a valid server type', async () => {
-        const type: Protocol.ServerType = {
-            id: 'org.jboss.ide.eclipse.as.wildfly.130',
-            description: 'A server adapter capable of discovering and controlling a WildFly 13.x runtime instance.',
-            visibleName: 'WildFly 13.x'
-        };
-
-        const attrs = await client.getServerTypeOptionalAttributes(type);
-        expect(attrs).deep.equals(
-            { attributes: { "vm.install.path": {
-                description: "A string representation pointing to a java home. If not set, java.home will be used instead.",
-                type: 'string' } 
-            }});
+        const attrs = await client.getServerTypeOptionalAttributes(runtimeType);
+        expect(Object.keys(attrs.attributes)).deep.equals(['vm.install.path']);
+        expect(attrs.attributes['vm.install.path'].type).equals('string');
     });
 
     it('getOptionalAttributes handles unsupported types', async () => {
@@ -143,11 +89,7 @@ describe('Server Model', () => {
         const handles = await client.getServerHandles();
         await client.deleteServerSync(handles[0]);
 
-        expect(handles).deep.include({ id: 'fly',
-        type: 
-         { id: 'org.jboss.ide.eclipse.as.wildfly.130',
-           visibleName: 'WildFly 13.x',
-           description: 'A server adapter capable of discovering and controlling a WildFly 13.x runtime instance.' } });
+        expect(handles).deep.include({ id: 'fly', type: runtimeType });
     });
 
     it('createServer handles unknown server/bean', async () => {
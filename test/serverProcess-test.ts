@@ -0,0 +1,129 @@
+import * as chai from 'chai';
+import { RSPClient, Protocol, ServerState } from 'rsp-client';
+import { getClient, resetServer } from '../resources/fixture';
+import { captureProcess, waitForState, ProcessCapture, StreamType } from '../resources/notifications';
+import 'mocha';
+import * as path from 'path';
+
+const expect = chai.expect;
+
+describe('Server Process', function() {
+    this.timeout(90000);
+
+    const wildflyRoot = path.resolve('./wildfly');
+
+    let client: RSPClient;
+    let handle: Protocol.ServerHandle;
+    let capture: ProcessCapture;
+
+    before(() => {
+        client = getClient();
+    });
+
+    beforeEach(async () => {
+        handle = await client.createServerSync(wildflyRoot, 'process');
+        capture = captureProcess(client, handle);
+
+        const started = waitForState(client, handle, ServerState.STARTED, 60000);
+        const response = await client.startServerAsync({
+            mode: 'run',
+            params: { id: handle.id, serverType: handle.type.id, attributes: { 'server.home.dir': wildflyRoot } }
+        });
+        expect(response.status.severity, response.status.message).equals(0);
+        await started;
+    });
+
+    afterEach(async function() {
+        this.timeout(30000);
+        capture.stop();
+        await resetServer();
+    });
+
+    it('serverProcessCreated precedes all output of the process', async () => {
+        await capture.waitForOutput(/WFLYSRV0025/, 30000);
+
+        expect(capture.processIds).length(1);
+        const first = capture.events[0];
+        expect(first.event).equals('serverProcessCreated');
+        expect(first.server).deep.equals(handle);
+        expect(first.processId).not.empty;
+    });
+
+    it('serverProcessOutputAppended streams the boot banner in order', async () => {
+        const output = await capture.waitForOutput(/WFLYSRV0025/, 30000);
+
+        const starting = output.search(/WFLYSRV0049/);
+        const started = output.search(/WFLYSRV0025/);
+        expect(starting, 'WFLYSRV0049 starting banner').greaterThan(-1);
+        expect(started, 'WFLYSRV0025 started banner after the starting banner').greaterThan(starting);
+    });
+
+    it('serverProcessOutputAppended reports known stream types and the process id', async () => {
+        await capture.waitForOutput(/WFLYSRV0025/, 30000);
+
+        const processId = capture.processIds[0];
+        const chunks = capture.events.filter(event => event.event === 'serverProcessOutputAppended');
+        expect(chunks).not.empty;
+        chunks.forEach(chunk => {
+            expect(chunk.server).deep.equals(handle);
+            expect(chunk.processId).equals(processId);
+            expect([StreamType.SYSERR, StreamType.SYSOUT, StreamType.OTHER]).include(chunk.streamType);
+            expect(chunk.text).a('string');
+        });
+        expect(capture.streamTypes).include(StreamType.SYSOUT);
+        // the banner goes to standard output only
+        capture.streamTypes.filter(type => type !== StreamType.SYSOUT)
+            .forEach(type => expect(capture.output(type)).not.match(/WFLYSRV0025/));
+    });
+
+    it('serverProcessTerminated follows stopServerAsync', async () => {
+        await capture.waitForOutput(/WFLYSRV0025/, 30000);
+        const processId = capture.processIds[0];
+
+        const stopped = waitForState(client, handle, ServerState.STOPPED, 30000);
+        const status = await client.stopServerAsync({ id: handle.id, force: false });
+        expect(status.severity, status.message).equals(0);
+        const terminated = await capture.waitForTermination(30000);
+        await stopped;
+
+        expect(terminated.server).deep.equals(handle);
+        expect(terminated.processId).equals(processId);
+        expect(capture.output(), 'WFLYSRV0050 shutdown message').match(/WFLYSRV0050/);
+        expect(capture.events.filter(event => event.event === 'serverProcessTerminated')).length(1);
+        expect(capture.events[capture.events.length - 1].event, 'no output after termination').equals('serverProcessTerminated');
+    });
+
+    it('serverProcessTerminated follows stopServerAsync with force', async () => {
+        await capture.waitForOutput(/WFLYSRV0025/, 30000);
+        const processId = capture.processIds[0];
+
+        const stopped = waitForState(client, handle, ServerState.STOPPED, 30000);
+        const status = await client.stopServerAsync({ id: handle.id, force: true });
+        expect(status.severity, status.message).equals(0);
+        const terminated = await capture.waitForTermination(30000);
+        await stopped;
+
+        expect(terminated.server).deep.equals(handle);
+        expect(terminated.processId).equals(processId);
+        expect(capture.events.filter(event => event.event === 'serverProcessTerminated')).length(1);
+    });
+
+    it('serverProcessCreated reports a new process id for every start', async () => {
+        const stopped = waitForState(client, handle, ServerState.STOPPED, 30000);
+        await client.stopServerAsync({ id: handle.id, force: true });
+        await stopped;
+
+        const started = waitForState(client, handle, ServerState.STARTED, 60000);
+        await client.startServerAsync({
+            mode: 'run',
+            params: { id: handle.id, serverType: handle.type.id, attributes: { 'server.home.dir': wildflyRoot } }
+        });
+        await started;
+
+        const [first, second] = capture.processIds;
+        expect(capture.processIds).length(2);
+        expect(second).not.equals(first);
+        const terminated = capture.events.find(event => event.event === 'serverProcessTerminated');
+        expect(terminated.processId).equals(first);
+    });
+});
@@ -0,0 +1,141 @@
+import * as chai from 'chai';
+import * as Mocha from 'mocha';
+import { RSPClient, Protocol } from 'rsp-client';
+import { getClient, getPort } from '../resources/fixture';
+import { RawRpcClient } from '../resources/raw-client';
+import { installations, createInstallation, createRoot } from '../resources/installations';
+import { attributesProblems, launchModeProblems, validValue, wrongValue } from '../resources/attribute-schema';
+import * as fs from 'fs-extra';
+import 'mocha';
+
+const expect = chai.expect;
+
+/**
+ * Tests generated from the server types the RSP reports, so adapters added to the server are
+ * covered without changes here. The before hook adds one suite per type.
+ */
+describe('Server Type Schema', () => {
+
+    let client: RSPClient;
+    let raw: RawRpcClient;
+    let root: string;
+    let serverTypes: Protocol.ServerType[];
+
+    before(async function() {
+        client = getClient();
+        raw = await RawRpcClient.connect(getPort());
+        root = createRoot('rsp-schema-');
+        serverTypes = await client.getServerTypes();
+        for (const serverType of serverTypes) {
+            addTypeSuite(this.test.parent, serverType,
+                await client.getServerTypeRequiredAttributes(serverType),
+                await client.getServerTypeOptionalAttributes(serverType));
+        }
+    });
+
+    after(() => {
+        raw.close();
+        fs.removeSync(root);
+    });
+
+    it('getServerTypes reports server types with unique ids', () => {
+        expect(serverTypes).not.empty;
+        const ids = serverTypes.map(type => type.id);
+        expect(ids).deep.equals(ids.filter((id, index) => ids.indexOf(id) === index));
+        serverTypes.forEach(type => {
+            expect(type.visibleName, type.id).not.empty;
+            expect(type.description, type.id).not.empty;
+        });
+    });
+
+    /**
+     * Sends createServer with the given attributes and returns the status, removing the server
+     * again if it was created
+     */
+    async function createServer(serverType: Protocol.ServerType, id: string, attributes: { [name: string]: any }): Promise<Protocol.Status> {
+        const response = await raw.request('server/createServer', { id, serverType: serverType.id, attributes });
+        expect(response.error, JSON.stringify(response.error)).undefined;
+        const handles = await client.getServerHandles();
+        const handle = handles.find(existing => existing.id === id);
+        expect(!!handle, `server ${id} exists after a create with severity ${response.result.severity}`)
+            .equals(response.result.severity === 0);
+        if (handle) {
+            await client.deleteServerSync(handle);
+        }
+        return response.result;
+    }
+
+    /**
+     * Attribute values the type accepts, installation paths taken from a generated installation
+     */
+    function validAttributes(serverType: Protocol.ServerType, required: Protocol.Attributes): { [name: string]: any } {
+        const installation = installations.find(candidate => candidate.serverAdapterTypeId === serverType.id);
+        const location = installation ? createInstallation(root, installation) : root;
+        const attributes: { [name: string]: any } = {};
+        Object.keys(required.attributes).forEach(name => attributes[name] = /^server\.home\./.test(name)
+            ? location : validValue(required.attributes[name].type));
+        return attributes;
+    }
+
+    function addTypeSuite(parent: Mocha.Suite, serverType: Protocol.ServerType,
+            required: Protocol.Attributes, optional: Protocol.Attributes) {
+        const suite = Mocha.Suite.create(parent, `${serverType.visibleName} (${serverType.id})`);
+        const test = (title: string, fn: () => Promise<void>) => suite.addTest(new Mocha.Test(title, fn));
+
+        test('getServerTypeRequiredAttributes matches the attribute schema', async () => {
+            expect(attributesProblems(required)).deep.equals([]);
+        });
+
+        test('getServerTypeOptionalAttributes matches the attribute schema', async () => {
+            expect(attributesProblems(optional)).deep.equals([]);
+        });
+
+        test('getServerLaunchModes returns valid launch modes with valid attributes', async () => {
+            const modes = await client.getServerLaunchModes(serverType);
+            expect(modes).not.empty;
+            for (const mode of modes) {
+                expect(launchModeProblems(mode)).deep.equals([]);
+                const request: Protocol.LaunchAttributesRequest = { id: serverType.id, mode: mode.mode };
+                expect(attributesProblems(await client.getServerRequiredLaunchAttributes(request)), mode.mode).deep.equals([]);
+                expect(attributesProblems(await client.getServerOptionalLaunchAttributes(request)), mode.mode).deep.equals([]);
+            }
+        });
+
+        if (!required || !required.attributes || !optional || !optional.attributes) {
+            return;
+        }
+
+        Object.keys(required.attributes).forEach(name => {
+            test(`createServer rejects a server without ${name}`, async () => {
+                const attributes = validAttributes(serverType, required);
+                delete attributes[name];
+                const status = await createServer(serverType, 'schema-missing', attributes);
+                expect(status.severity, status.message).greaterThan(0);
+            });
+        });
+
+        const declared = Object.assign({}, optional.attributes, required.attributes);
+        Object.keys(declared).forEach(name => {
+            test(`createServer rejects ${name} of a type other than ${declared[name].type}`, async () => {
+                const attributes = validAttributes(serverType, required);
+                attributes[name] = wrongValue(declared[name].type);
+                const status = await createServer(serverType, 'schema-wrong-type', attributes);
+                expect(status.severity, status.message).greaterThan(0);
+            });
+        });
+
+        test('createServer accepts valid required attributes', async () => {
+            const status = await createServer(serverType, 'schema-valid', validAttributes(serverType, required));
+            expect(status.severity, status.message).equals(0);
+        });
+
+        if (Object.keys(optional.attributes).length > 0) {
+            test('createServer accepts valid optional attributes', async () => {
+                const attributes = validAttributes(serverType, required);
+                Object.keys(optional.attributes).forEach(name => attributes[name] = validValue(optional.attributes[name].type));
+                const status = await createServer(serverType, 'schema-optional', attributes);
+                expect(status.severity, status.message).equals(0);
+            });
+        }
+    }
+});
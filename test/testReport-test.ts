@@ -0,0 +1,66 @@
+import * as chai from 'chai';
+import { LogTail } from '../resources/test-logs';
+import { ReportedTest, junitXml, htmlReport } from '../resources/test-report';
+import 'mocha';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+const expect = chai.expect;
+
+describe('Test Report', () => {
+
+    const failed: ReportedTest = {
+        suites: ['Server Model', 'createServer'],
+        title: 'rejects <missing> & "odd" homes',
+        state: 'failed',
+        duration: 1500,
+        error: { message: 'expected 4 to equal 0', stack: 'AssertionError: expected 4 to equal 0\n    at <anonymous>' },
+        attachments: [{ name: 'RSP stderr', content: '\u001b[31mERROR\u001b[0m home <none>' }]
+    };
+    const passed: ReportedTest = { suites: ['Server Model'], title: 'lists handles', state: 'passed', duration: 20, attachments: [] };
+    const pending: ReportedTest = { suites: ['Discovery'], title: 'later', state: 'pending', duration: undefined, attachments: [] };
+
+    it('junit XML groups tests by top level suite and puts attachments into system-out', () => {
+        const xml = junitXml([failed, passed, pending]);
+
+        expect(xml).contains('<testsuites tests="3" failures="1">');
+        expect(xml).contains('<testsuite name="Server Model" tests="2" failures="1" skipped="0" time="1.520">');
+        expect(xml).contains('<testsuite name="Discovery" tests="1" failures="0" skipped="1" time="0.000">');
+        expect(xml).contains('classname="Server Model &gt; createServer" name="rejects &lt;missing&gt; &amp; &quot;odd&quot; homes"');
+        expect(xml).contains('<failure message="expected 4 to equal 0">');
+        expect(xml).contains('<system-out>===== RSP stderr =====\n[31mERROR[0m home &lt;none&gt;</system-out>');
+        expect(xml).not.contains('\u001b');
+        expect(xml.match(/<system-out>/g)).length(1);
+    });
+
+    it('HTML report lists failures with their attachments', () => {
+        const html = htmlReport([failed, passed, pending]);
+
+        expect(html).contains('1 passed, 1 failed, 1 pending');
+        expect(html).contains('<h3>Server Model &gt; createServer &gt; rejects &lt;missing&gt; &amp; &quot;odd&quot; homes</h3>');
+        expect(html).contains('<details><summary>RSP stderr</summary>');
+        expect(html).contains('<h2>Failures</h2>');
+        expect(htmlReport([passed])).not.contains('<h2>Failures</h2>');
+    });
+
+    it('log tails return what was appended since the mark', () => {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'rsp-log-')), 'server.log');
+        const tail = new LogTail('server.log', file);
+        try {
+            const empty = tail.mark();
+            expect(empty).equals(0);
+            fs.writeFileSync(file, 'boot\n');
+            expect(tail.since(empty)).equals('boot\n');
+
+            const mark = tail.mark();
+            fs.appendFileSync(file, 'deployed\n');
+            expect(tail.since(mark)).equals('deployed\n');
+
+            fs.writeFileSync(file, 'new\n');
+            expect(tail.since(mark), 'after rotation').equals('new\n');
+        } finally {
+            fs.removeSync(path.dirname(file));
+        }
+    });
+});
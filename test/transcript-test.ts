@@ -0,0 +1,90 @@
+import * as chai from 'chai';
+import { TranscriptMessage, normalize, diffLines } from '../resources/transcript';
+import 'mocha';
+
+const expect = chai.expect;
+
+describe('Transcripts', () => {
+
+    describe('normalize', () => {
+
+        it('renumbers connections and request ids in order of appearance', () => {
+            const messages: TranscriptMessage[] = [
+                { connection: 7, from: 'client', type: 'request', id: 40, method: 'server/getServerHandles' },
+                { connection: 7, from: 'server', type: 'response', id: 40, method: 'server/getServerHandles', result: [] },
+                { connection: 9, from: 'client', type: 'request', id: 40, method: 'server/getServerTypes' },
+                { connection: 9, from: 'server', type: 'response', id: 40, method: 'server/getServerTypes', result: [] }
+            ];
+
+            expect(normalize(messages, {}).map(message => [message.connection, message.id])).deep.equals([[1, 1], [1, 1], [2, 2], [2, 2]]);
+        });
+
+        it('replaces locations, temporary suffixes, timestamps, ports and huge strings', () => {
+            const messages: TranscriptMessage[] = [{ connection: 1, from: 'client', type: 'request', id: 1, method: 'server/test', params: {
+                home: '/work/rsp/wildfly',
+                root: '/tmp/rsp-installations-a1B2c3/wildfly-13',
+                logged: 'started at 2018-08-01T12:30:45.123Z, took 12:30:45,123',
+                port: 9990,
+                count: 9990,
+                payload: 'x'.repeat(5000)
+            } }];
+
+            expect(normalize(messages, { cwd: '/work/rsp', tmp: '/tmp' })[0].params).deep.equals({
+                home: '${cwd}/wildfly',
+                root: '${tmp}/rsp-installations-XXXXXX/wildfly-13',
+                logged: 'started at <timestamp>, took <time>',
+                port: '<port>',
+                count: 9990,
+                payload: '<5000 characters>'
+            });
+        });
+
+        it('sorts what the server sent between two client messages and leaves out process output', () => {
+            const request: TranscriptMessage = { connection: 1, from: 'client', type: 'request', id: 5, method: 'server/createServer' };
+            const response: TranscriptMessage = { connection: 1, from: 'server', type: 'response', id: 5, method: 'server/createServer', result: {} };
+            const added: TranscriptMessage = { connection: 1, from: 'server', type: 'notification', method: 'client/serverAdded', params: { id: 'a' } };
+            const output: TranscriptMessage = { connection: 1, from: 'server', type: 'notification', method: 'client/serverProcessOutputAppended' };
+            const next: TranscriptMessage = { connection: 1, from: 'client', type: 'request', id: 6, method: 'server/getServerHandles' };
+
+            const first = normalize([request, added, output, response, next], {});
+            const second = normalize([request, response, added, next], {});
+
+            expect(first).deep.equals(second);
+            expect(first.map(message => message.method)).deep.equals(
+                ['server/createServer', 'server/createServer', 'client/serverAdded', 'server/getServerHandles']);
+        });
+    });
+
+    describe('diffLines', () => {
+
+        const numbered = (count: number) => Array.from(Array(count), (_, index) => `line ${index}`);
+
+        it('shows changed lines with their context', () => {
+            const expected = numbered(20);
+            const actual = expected.slice();
+            actual.splice(10, 1, 'changed');
+
+            expect(diffLines(expected.join('\n'), actual.join('\n'), 2)).equals(
+                ['  line 8', '  line 9', '- line 10', '+ changed', '  line 11', '  line 12'].join('\n'));
+        });
+
+        it('separates distant changes and keeps moved lines apart from added ones', () => {
+            const expected = numbered(20);
+            const actual = ['inserted', ...expected.slice(0, 15), ...expected.slice(16)];
+
+            expect(diffLines(expected.join('\n'), actual.join('\n'), 1)).equals(
+                ['+ inserted', '  line 0', '...', '  line 14', '- line 15', '  line 16'].join('\n'));
+            expect(diffLines('same\ntext', 'same\ntext')).equals('');
+        });
+
+        it('diffs long transcripts with scattered changes', () => {
+            const expected = numbered(50000);
+            const actual = expected.map(line => /0000$/.test(line) ? `${line} changed` : line);
+
+            const diff = diffLines(expected.join('\n'), actual.join('\n'), 0).split('\n');
+            expect(diff.filter(line => line.startsWith('+'))).deep.equals(
+                ['+ line 10000 changed', '+ line 20000 changed', '+ line 30000 changed', '+ line 40000 changed']);
+            expect(diff.filter(line => line.startsWith('-'))).length(4);
+        });
+    });
+});